@@ -0,0 +1,46 @@
+import type { PlaneAttachment } from "./types";
+
+const EMBED_RE = /!\[\[([^\]]+)\]\]/g;
+
+const MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+	svg: "image/svg+xml",
+	bmp: "image/bmp",
+	avif: "image/avif",
+	pdf: "application/pdf",
+	mp4: "video/mp4",
+	webm: "video/webm",
+	mp3: "audio/mpeg",
+	wav: "audio/wav",
+	zip: "application/zip",
+	csv: "text/csv",
+	txt: "text/plain",
+};
+
+export function mimeType(extension: string): string {
+	return MIME_TYPES[extension.toLowerCase()] ?? "application/octet-stream";
+}
+
+/** Embed targets (`![[target]]`, alias/heading suffixes included) in document order, without repeats. */
+export function embedTargets(markdown: string): string[] {
+	const targets = new Set<string>();
+	for (const match of markdown.matchAll(EMBED_RE)) {
+		if (match[1]) targets.add(match[1]);
+	}
+	return Array.from(targets);
+}
+
+export function attachmentName(attachment: PlaneAttachment): string {
+	return attachment.attributes?.name || attachment.asset?.split("/").pop() || attachment.id;
+}
+
+export function formatSize(bytes: number | undefined): string {
+	if (bytes === undefined) return "";
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,75 @@
+export interface DiffRow {
+	kind: "same" | "changed" | "removed" | "added";
+	left?: string;
+	right?: string;
+}
+
+/**
+ * Line based diff (LCS) laid out for a side-by-side view: unchanged lines share a row,
+ * removed/added runs are paired up as "changed" rows where possible.
+ */
+export function diffLines(left: string, right: string): DiffRow[] {
+	const a = left.split("\n");
+	const b = right.split("\n");
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+		}
+	}
+
+	const rows: DiffRow[] = [];
+	let removed: string[] = [];
+	let added: string[] = [];
+	const flush = () => {
+		const paired = Math.min(removed.length, added.length);
+		for (let k = 0; k < paired; k++) rows.push({ kind: "changed", left: removed[k], right: added[k] });
+		for (const line of removed.slice(paired)) rows.push({ kind: "removed", left: line });
+		for (const line of added.slice(paired)) rows.push({ kind: "added", right: line });
+		removed = [];
+		added = [];
+	};
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			flush();
+			rows.push({ kind: "same", left: a[i], right: b[j] });
+			i++;
+			j++;
+		} else if (j >= b.length || (i < a.length && lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+			removed.push(a[i]!);
+			i++;
+		} else {
+			added.push(b[j]!);
+			j++;
+		}
+	}
+	flush();
+	return rows;
+}
+
+/** Combines both sides, wrapping every differing run in git-style conflict markers. */
+export function mergeWithMarkers(rows: DiffRow[], leftLabel: string, rightLabel: string): string {
+	const out: string[] = [];
+	let left: string[] = [];
+	let right: string[] = [];
+	const flush = () => {
+		if (!left.length && !right.length) return;
+		out.push(`<<<<<<< ${leftLabel}`, ...left, "=======", ...right, `>>>>>>> ${rightLabel}`);
+		left = [];
+		right = [];
+	};
+	for (const row of rows) {
+		if (row.kind === "same") {
+			flush();
+			out.push(row.left ?? "");
+			continue;
+		}
+		if (row.left !== undefined) left.push(row.left);
+		if (row.right !== undefined) right.push(row.right);
+	}
+	flush();
+	return out.join("\n");
+}
@@ -0,0 +1,126 @@
+/** Plane answered, but with a non-2xx status. */
+export class PlaneApiError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+		readonly body?: string,
+	) {
+		super(message);
+		this.name = "PlaneApiError";
+	}
+}
+
+/** 401/403: the API token is missing, wrong or lacks access to the workspace/project. */
+export class PlaneAuthError extends PlaneApiError {
+	constructor(message: string, status: number, body?: string) {
+		super(message, status, body);
+		this.name = "PlaneAuthError";
+	}
+}
+
+/** 404: the workspace, project or record does not exist (anymore). */
+export class PlaneNotFoundError extends PlaneApiError {
+	constructor(message: string, status: number, body?: string) {
+		super(message, status, body);
+		this.name = "PlaneNotFoundError";
+	}
+}
+
+/** 429 after all retries were used up. */
+export class PlaneRateLimitError extends PlaneApiError {
+	constructor(
+		message: string,
+		status: number,
+		body?: string,
+		readonly retryAfterMs?: number,
+	) {
+		super(message, status, body);
+		this.name = "PlaneRateLimitError";
+	}
+}
+
+/** 400/422: Plane refused the payload. `fields` holds per-field messages when Plane sent them. */
+export class PlaneValidationError extends PlaneApiError {
+	readonly fields: Record<string, string>;
+
+	constructor(message: string, status: number, body?: string) {
+		super(message, status, body);
+		this.name = "PlaneValidationError";
+		this.fields = parseFieldErrors(body);
+	}
+}
+
+/** A queued note push found the work item changed in Plane too; only the user can pick a side. */
+export class NoteConflictError extends Error {
+	constructor(readonly path: string) {
+		super(`${path} was also changed in Plane; resolve the conflict to push it`);
+		this.name = "NoteConflictError";
+	}
+}
+
+/** The request never got an answer (offline, DNS, TLS, connection reset…). */
+export class PlaneNetworkError extends Error {
+	constructor(
+		message: string,
+		readonly original?: unknown,
+	) {
+		super(message);
+		this.name = "PlaneNetworkError";
+	}
+}
+
+export function apiErrorFor(message: string, status: number, body?: string, retryAfterMs?: number): PlaneApiError {
+	if (status === 401 || status === 403) return new PlaneAuthError(message, status, body);
+	if (status === 404) return new PlaneNotFoundError(message, status, body);
+	if (status === 429) return new PlaneRateLimitError(message, status, body, retryAfterMs);
+	if (status === 400 || status === 422) return new PlaneValidationError(message, status, body);
+	return new PlaneApiError(message, status, body);
+}
+
+/** Errors worth retrying later rather than surfacing as a hard failure. */
+export function isTransientError(error: unknown): boolean {
+	if (error instanceof PlaneNetworkError) return true;
+	if (error instanceof PlaneApiError) return error.status === 429 || error.status >= 500;
+	return false;
+}
+
+/** Short, user-facing explanation for a Notice. */
+export function describeError(error: unknown): string {
+	if (error instanceof PlaneAuthError) {
+		return "Plane rejected the API token. Check the token and workspace slug in settings.";
+	}
+	if (error instanceof PlaneNotFoundError) {
+		return "Plane could not find that record; it may have been deleted.";
+	}
+	if (error instanceof PlaneRateLimitError) {
+		const wait = error.retryAfterMs ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.` : "";
+		return `Plane rate limit reached.${wait}`;
+	}
+	if (error instanceof PlaneValidationError) {
+		const fields = Object.entries(error.fields).map(([field, msg]) => `${field}: ${msg}`);
+		return fields.length ? `Plane rejected the change (${fields.join("; ")})` : "Plane rejected the change.";
+	}
+	if (error instanceof PlaneNetworkError) {
+		return "Plane is unreachable. Check your connection.";
+	}
+	if (error instanceof PlaneApiError && error.status >= 500) {
+		return `Plane server error (${error.status}). Try again later.`;
+	}
+	return error instanceof Error ? error.message : String(error);
+}
+
+function parseFieldErrors(body?: string): Record<string, string> {
+	if (!body) return {};
+	try {
+		const parsed = JSON.parse(body) as unknown;
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+		const fields: Record<string, string> = {};
+		for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+			if (Array.isArray(value)) fields[key] = value.map(String).join(", ");
+			else if (typeof value === "string") fields[key] = value;
+		}
+		return fields;
+	} catch {
+		return {};
+	}
+}
@@ -0,0 +1,47 @@
+import type { PlaneState, PlaneWorkItem } from "./types";
+
+export interface ChildProgress {
+	done: number;
+	total: number;
+}
+
+/** Groups work items under their parent id; top-level items are listed under "". */
+export function childrenByParent(items: PlaneWorkItem[]): Map<string, PlaneWorkItem[]> {
+	const known = new Set(items.map((item) => item.id));
+	const byParent = new Map<string, PlaneWorkItem[]>();
+	for (const item of items) {
+		// a parent outside the cache (other project, not synced yet) makes the item a root
+		const parent = item.parent && known.has(item.parent) ? item.parent : "";
+		const siblings = byParent.get(parent);
+		if (siblings) siblings.push(item);
+		else byParent.set(parent, [item]);
+	}
+	return byParent;
+}
+
+/** Completed children out of all children; cancelled ones count as neither. */
+export function childProgress(children: PlaneWorkItem[], states: PlaneState[]): ChildProgress {
+	const groupOf = new Map(states.map((s) => [s.id, s.group]));
+	let done = 0;
+	let total = 0;
+	for (const child of children) {
+		const group = groupOf.get(child.state_id ?? child.state ?? "");
+		if (group === "cancelled") continue;
+		total++;
+		if (group === "completed") done++;
+	}
+	return { done, total };
+}
+
+/** Whether making `parentId` the parent of `itemId` would create a cycle. */
+export function wouldCreateCycle(items: PlaneWorkItem[], itemId: string, parentId: string): boolean {
+	const parentOf = new Map(items.map((item) => [item.id, item.parent ?? null]));
+	const seen = new Set<string>();
+	let current: string | null = parentId;
+	while (current && !seen.has(current)) {
+		if (current === itemId) return true;
+		seen.add(current);
+		current = parentOf.get(current) ?? null;
+	}
+	return false;
+}
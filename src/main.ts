@@ -1,22 +1,91 @@
 import { Editor, Events, MarkdownView, Notice, Plugin, TFile, WorkspaceLeaf } from "obsidian";
 import { PlaneClient } from "./planeClient";
-import { DEFAULT_SETTINGS, PlaneSettingTab, PlaneSettings } from "./settings";
+import { NoteSync } from "./noteSync";
+import { TaskSync } from "./taskSync";
+import { markdownToHtml } from "./markdown";
+import { Outbox, isTempId } from "./outbox";
+import { describeError, isTransientError } from "./errors";
+import {
+	DEFAULT_PROFILE,
+	DEFAULT_SETTINGS,
+	PlaneSettingTab,
+	type ConnectionProfile,
+	type PlaneSettings,
+} from "./settings";
+import { attachmentName } from "./attachments";
 import type {
+	PlaneAttachment,
 	PlaneCache,
+	PlaneComment,
+	PlaneCycle,
+	PlaneLabel,
+	CyclePayload,
 	PersistedData,
+	PlaneModule,
 	PlaneWorkItem,
 	ProjectCache,
 	PlaneProject,
+	PlaneRelations,
+	RelationType,
+	WorkItemPayload,
 } from "./types";
 import { PlaneHubModal } from "./ui/hub";
+import { OutboxModal } from "./ui/outboxModal";
+import { promptRemoval, type RemovalKind } from "./ui/removeModal";
 import { PlaneBoardView, VIEW_TYPE_PLANE_BOARD } from "./ui/boardView";
+import { PlaneTableView, VIEW_TYPE_PLANE_TABLE } from "./ui/tableView";
+import { PlaneTimelineView, VIEW_TYPE_PLANE_TIMELINE } from "./ui/timelineView";
+import { PlaneTreeView, VIEW_TYPE_PLANE_TREE } from "./ui/treeView";
+import { PlaneQueryBlock } from "./ui/queryBlock";
+import { GenerateNotesModal } from "./ui/generateNotesModal";
+import { PlaneStatusBar } from "./ui/statusBar";
+import { WorkItemSwitcher } from "./ui/workItemSwitcher";
+
+// overlap delta windows a little so clock drift between Obsidian and Plane can't drop updates
+const SYNC_SKEW_MS = 5 * 60 * 1000;
+const OUTBOX_RETRY_MS = 60 * 1000;
+const SYNC_CHECK_MS = 60 * 1000;
+// background syncs that keep failing wait up to this long between tries (or their interval, if longer)
+const SYNC_BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+const LABEL_COLORS = ["#ef4444", "#f97316", "#eab308", "#22c55e", "#06b6d4", "#3b82f6", "#8b5cf6", "#ec4899"];
+
+function randomLabelColor(): string {
+	return LABEL_COLORS[Math.floor(Math.random() * LABEL_COLORS.length)] ?? "#3b82f6";
+}
+
+/** Project ids are only unique per instance, so caches are kept per profile and workspace. */
+function cacheKey(profile: ConnectionProfile): string {
+	return `${profile.id}/${profile.workspaceSlug}`;
+}
+
+function migrateCache(cache: PlaneCache): PlaneCache {
+	if (!cache.projects) return { projects: {}, selectedProjectId: cache.selectedProjectId };
+	for (const project of Object.values(cache.projects)) {
+		// caches written before cycles/labels/members were synced
+		project.cycles ??= [];
+		project.labels ??= [];
+		project.members ??= [];
+	}
+	return cache;
+}
 
 export default class PlaneProjectPlugin extends Plugin {
 	settings: PlaneSettings = DEFAULT_SETTINGS;
+	/** Cache of the active profile; the others wait in `caches` */
 	cache: PlaneCache = { projects: {}, selectedProjectId: undefined };
-	client: PlaneClient = new PlaneClient(() => this.settings);
+	caches: Record<string, PlaneCache> = {};
+	client: PlaneClient = new PlaneClient(() => this.connection);
 	availableProjects: PlaneProject[] = [];
 	events = new Events();
+	noteSync = new NoteSync(this);
+	taskSync = new TaskSync(this);
+	outbox = new Outbox(this);
+	/** Last sync error per project, shown in the status bar until that project syncs again */
+	readonly syncErrors = new Map<string, string>();
+	private readonly syncRuns = new Map<string, Promise<void>>();
+	/** When each project last tried to sync, and how many tries in a row failed; drives the background backoff */
+	private readonly syncAttempts = new Map<string, { at: number; failures: number }>();
 
 	async onload() {
 		await this.loadPersisted();
@@ -36,12 +105,60 @@ export default class PlaneProjectPlugin extends Plugin {
 			callback: () => this.openBoardForProject(),
 		});
 
+		this.addCommand({
+			id: "plane-my-work",
+			name: "Plane: open my work",
+			callback: () => this.openBoardForProject(undefined, true),
+		});
+
+		this.addCommand({
+			id: "plane-find-work-item",
+			name: "Plane: find work item",
+			callback: () => new WorkItemSwitcher(this).open(),
+		});
+
+		this.addCommand({
+			id: "plane-open-tree",
+			name: "Plane: open work item tree",
+			callback: () => this.openTree(),
+		});
+
+		this.addCommand({
+			id: "plane-open-table",
+			name: "Plane: open work item table",
+			callback: () => this.openTable(),
+		});
+
+		this.addCommand({
+			id: "plane-open-timeline",
+			name: "Plane: open module timeline",
+			callback: () => this.openTimeline(),
+		});
+
+		this.addCommand({
+			id: "plane-generate-notes",
+			name: "Plane: generate notes for the project or a module",
+			callback: () => this.openGenerateNotes(),
+		});
+
+		this.addCommand({
+			id: "plane-tasks-to-work-items",
+			name: "Plane: create work items from unchecked tasks",
+			editorCallback: (editor: Editor, view) => this.taskSync.convertTasks(editor, view.file),
+		});
+
 		this.addCommand({
 			id: "plane-sync",
 			name: "Plane: sync modules and work items",
 			callback: () => this.syncFromPlane(true),
 		});
 
+		this.addCommand({
+			id: "plane-full-sync",
+			name: "Plane: full resync of the current project",
+			callback: () => this.syncFromPlane(true, undefined, true),
+		});
+
 		this.addCommand({
 			id: "plane-new-from-selection",
 			name: "Plane: create work item from selection",
@@ -60,14 +177,65 @@ export default class PlaneProjectPlugin extends Plugin {
 				const meta = this.app.metadataCache.getFileCache(file);
 				const planeId = meta?.frontmatter?.planeId as string | undefined;
 				if (!planeId) return false;
-				if (!checking) void this.pushNoteToPlane(file, planeId);
+				if (!checking) void this.noteSync.pushNote(file, planeId);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "plane-comment-selection",
+			name: "Plane: post selection as comment on the linked work item",
+			editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => {
+				const file = view.file;
+				const planeId = file ? (this.app.metadataCache.getFileCache(file)?.frontmatter?.planeId as string | undefined) : undefined;
+				const selection = editor.getSelection().trim();
+				if (!file || !planeId || !selection) return false;
+				if (!checking) void this.commentFromNote(file, planeId, selection);
 				return true;
 			},
 		});
 
+		this.addCommand({
+			id: "plane-outbox",
+			name: "Plane: show pending changes",
+			callback: () => this.openOutbox(),
+		});
+
 		this.addSettingTab(new PlaneSettingTab(this.app, this));
 
+		// replay queued mutations when connectivity returns, and periodically as a fallback
+		this.registerDomEvent(window, "online", () => void this.outbox.replay());
+		this.registerInterval(window.setInterval(() => void this.outbox.replay(), OUTBOX_RETRY_MS));
+		this.registerInterval(window.setInterval(() => this.syncDueProjects(), SYNC_CHECK_MS));
+		// catch up right away when coming back to Obsidian
+		this.registerDomEvent(window, "focus", () => this.syncDueProjects());
+		new PlaneStatusBar(this, this.addStatusBarItem());
+
 		this.registerView(VIEW_TYPE_PLANE_BOARD, (leaf) => new PlaneBoardView(leaf, this));
+		this.registerView(VIEW_TYPE_PLANE_TREE, (leaf) => new PlaneTreeView(leaf, this));
+		this.registerView(VIEW_TYPE_PLANE_TABLE, (leaf) => new PlaneTableView(leaf, this));
+		this.registerView(VIEW_TYPE_PLANE_TIMELINE, (leaf) => new PlaneTimelineView(leaf, this));
+		// push edits of the mirrored work item properties and ticked task checkboxes back to Plane
+		this.app.workspace.onLayoutReady(() => {
+			this.noteSync.snapshotFields();
+			void this.taskSync.snapshotAll();
+		});
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file, data, cache) => {
+				this.noteSync.onNoteChanged(file);
+				this.taskSync.onNoteChanged(file, data, cache);
+			}),
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				if (!(file instanceof TFile)) return;
+				this.noteSync.onNoteRenamed(file, oldPath);
+				this.taskSync.onNoteRenamed(file, oldPath);
+			}),
+		);
+		this.registerMarkdownCodeBlockProcessor("plane", (source, el, ctx) => {
+			ctx.addChild(new PlaneQueryBlock(el, this, source));
+		});
 
 		if (this.settings.syncOnLoad) {
 			void this.syncFromPlane(false);
@@ -80,107 +248,392 @@ export default class PlaneProjectPlugin extends Plugin {
 
 	async loadPersisted(): Promise<void> {
 		const raw = (await this.loadData()) as PersistedData | null;
-		if (raw?.settings && typeof raw.settings === "object") {
-			this.settings = { ...DEFAULT_SETTINGS, ...(raw.settings as Partial<PlaneSettings>) };
-		} else {
-			this.settings = { ...DEFAULT_SETTINGS };
+		const stored = raw?.settings && typeof raw.settings === "object" ? (raw.settings as Partial<PlaneSettings>) : {};
+		this.settings = { ...DEFAULT_SETTINGS, ...stored };
+		if (!stored.profiles?.length) {
+			// settings written before profiles kept a single connection at the top level
+			const legacy = stored as Partial<ConnectionProfile>;
+			this.settings.profiles = [
+				{
+					...DEFAULT_PROFILE,
+					apiBaseUrl: legacy.apiBaseUrl || DEFAULT_PROFILE.apiBaseUrl,
+					apiKey: legacy.apiKey ?? "",
+					workspaceSlug: legacy.workspaceSlug ?? "",
+					defaultProjectId: legacy.defaultProjectId ?? "",
+					defaultModuleId: legacy.defaultModuleId ?? "",
+				},
+			];
+			this.settings.activeProfileId = DEFAULT_PROFILE.id;
 		}
-		if (raw?.cache) {
-			this.cache = raw.cache;
-		}
-		if (!this.cache.projects) this.cache = { projects: {}, selectedProjectId: this.cache.selectedProjectId };
+
+		this.caches = raw?.caches ?? {};
+		if (raw?.cache && !raw.caches) this.caches[cacheKey(this.connection)] = raw.cache;
+		for (const [key, cache] of Object.entries(this.caches)) this.caches[key] = migrateCache(cache);
+		this.cache = this.caches[cacheKey(this.connection)] ?? { projects: {}, selectedProjectId: undefined };
+		this.outbox.entries = Array.isArray(raw?.outbox) ? raw.outbox : [];
 
 		// pull initial project list for dropdowns
 		await this.refreshProjectsList();
 	}
 
 	async savePersisted(): Promise<void> {
-		await this.saveData({ settings: this.settings, cache: this.cache });
+		this.caches[cacheKey(this.connection)] = this.cache;
+		// skip caches that never got a project (e.g. of a workspace slug that was mistyped)
+		const caches = Object.fromEntries(
+			Object.entries(this.caches).filter(([, cache]) => Object.keys(cache.projects).length > 0),
+		);
+		await this.saveData({ settings: this.settings, caches, outbox: this.outbox.entries });
+	}
+
+	/** The active connection profile. */
+	get connection(): ConnectionProfile {
+		const { profiles, activeProfileId } = this.settings;
+		return profiles.find((p) => p.id === activeProfileId) ?? profiles[0] ?? DEFAULT_PROFILE;
+	}
+
+	profileName(id: string | undefined): string {
+		return this.settings.profiles.find((p) => p.id === id)?.name ?? id ?? "";
+	}
+
+	/** Makes another profile active; `replay` starts sending the changes queued under it. */
+	async switchProfile(profileId: string, replay = true): Promise<void> {
+		await this.swapConnection(() => {
+			this.settings.activeProfileId = profileId;
+		});
+		if (replay) void this.outbox.replay();
+	}
+
+	/** Points the active profile at another workspace; the cache is kept per profile and workspace, so it follows. */
+	async setWorkspaceSlug(slug: string): Promise<void> {
+		if (this.connection.workspaceSlug === slug) return;
+		await this.swapConnection(() => {
+			this.connection.workspaceSlug = slug;
+		});
+	}
+
+	/** Stores the current cache, applies `change` to the connection and swaps in the cache that belongs to the result. */
+	private async swapConnection(change: () => void): Promise<void> {
+		this.caches[cacheKey(this.connection)] = this.cache;
+		change();
+		this.cache = this.caches[cacheKey(this.connection)] ?? { projects: {}, selectedProjectId: undefined };
+		this.availableProjects = [];
+		this.syncErrors.clear();
+		this.syncAttempts.clear();
+		await this.savePersisted();
+		this.events.trigger("cache-updated");
+		await this.refreshProjectsList();
+	}
+
+	async removeProfile(profileId: string): Promise<void> {
+		const { profiles } = this.settings;
+		if (profiles.length < 2) return;
+		const removed = profiles.find((p) => p.id === profileId);
+		if (!removed) return;
+		// its queued changes could never be sent again, so they have to be dealt with first
+		const queued = this.outbox.entries.filter((e) => (e.profileId ?? DEFAULT_PROFILE.id) === profileId).length;
+		if (queued) {
+			new Notice(
+				`"${removed.name}" still has ${queued} queued change${queued === 1 ? "" : "s"}. Send or discard them in the pending changes list before removing the profile.`,
+			);
+			return;
+		}
+		this.settings.profiles = profiles.filter((p) => p.id !== profileId);
+		delete this.caches[cacheKey(removed)];
+		if (this.settings.activeProfileId === profileId) {
+			this.settings.activeProfileId = this.settings.profiles[0]!.id;
+			this.cache = this.caches[cacheKey(this.connection)] ?? { projects: {}, selectedProjectId: undefined };
+			this.availableProjects = [];
+			await this.refreshProjectsList();
+		}
+		await this.savePersisted();
+		this.events.trigger("cache-updated");
 	}
 
 	async testConnection(): Promise<boolean> {
 		try {
 			return await this.client.ping();
 		} catch (error) {
-			new Notice(String(error));
+			new Notice(describeError(error));
 			return false;
 		}
 	}
 
-	async syncFromPlane(showNotice = true, projectId?: string): Promise<void> {
-		if (!this.settings.apiKey || !this.settings.workspaceSlug) {
-			new Notice("Plane settings are incomplete.");
+	/**
+	 * Pulls modules, cycles, labels, members, states and work items for a project.
+	 * After the first sync only items updated since `lastSync` are requested and
+	 * merged into the cache; pass `full` to refetch everything. A call while the
+	 * project is already syncing joins that run (a full resync runs after it).
+	 * Background syncs stay quiet and leave the selected project alone.
+	 */
+	async syncFromPlane(showNotice = true, projectId?: string, full = false, background = false): Promise<void> {
+		if (!this.connection.apiKey || !this.connection.workspaceSlug) {
+			if (!background) new Notice("Plane settings are incomplete.");
 			return;
 		}
-		const activeProject = projectId ?? this.cache.selectedProjectId ?? this.settings.defaultProjectId;
+		const activeProject = projectId ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
 		if (!activeProject) {
-			new Notice("Choose a project in settings or hub first.");
+			if (!background) new Notice("Choose a project in settings or hub first.");
 			return;
 		}
 
+		const key = this.syncKey(activeProject);
+		const running = this.syncRuns.get(key);
+		if (running) {
+			await running;
+			if (full) await this.syncFromPlane(showNotice, activeProject, full, background);
+			return;
+		}
+		const run = this.runSync(activeProject, showNotice, full, background).finally(() => {
+			this.syncRuns.delete(key);
+			this.events.trigger("sync-status");
+		});
+		this.syncRuns.set(key, run);
+		this.events.trigger("sync-status");
+		await run;
+	}
+
+	/** True while any project of the active profile and workspace is syncing. */
+	get syncing(): boolean {
+		const prefix = `${cacheKey(this.connection)}/`;
+		return Array.from(this.syncRuns.keys()).some((key) => key.startsWith(prefix));
+	}
+
+	/** In-flight syncs are told apart by profile and workspace too, as project ids are only unique per instance. */
+	private syncKey(projectId: string): string {
+		return `${cacheKey(this.connection)}/${projectId}`;
+	}
+
+	/**
+	 * Pulls one project. The connection and cache are taken at the start, so a profile or
+	 * workspace switch halfway through doesn't send the results into the other cache.
+	 */
+	private async runSync(activeProject: string, showNotice: boolean, full: boolean, background: boolean): Promise<void> {
+		const cache = this.cache;
+		const client = this.client.pinnedTo({ ...this.connection });
+		// errors and notes only concern the profile that is still active
+		const stillActive = () => this.cache === cache;
 		try {
-			const [modules, states] = await Promise.all([
-				this.client.listModules(activeProject),
-				this.client.listStates(activeProject),
+			// flush queued changes first so the pull doesn't overwrite them
+			await this.outbox.replay();
+			const cached = cache.projects[activeProject];
+			const previous = full ? undefined : cached;
+			const startedAt = Date.now();
+			const updatedSince = previous?.lastSync
+				? new Date(previous.lastSync - SYNC_SKEW_MS).toISOString()
+				: undefined;
+
+			const [modules, cycles, labels, members, states, changed, liveIds] = await Promise.all([
+				client.listModules(activeProject),
+				client.listCycles(activeProject),
+				client.listLabels(activeProject),
+				client.listMembers(activeProject),
+				client.listStates(activeProject),
+				client.listWorkItems(activeProject, updatedSince),
+				// a delta only has changed items; the id list reveals what was deleted or archived elsewhere
+				previous ? client.listWorkItemIds(activeProject) : Promise.resolve(null),
 			]);
+			if (!cache.me) {
+				try {
+					cache.me = await client.getMe();
+				} catch {
+					// only "My work" needs it; the next sync tries again
+				}
+			}
 
-			// fetch items per module so module id is present; also collect unassigned
-			const perModuleItems = await Promise.all(
-				modules.map(async (m) => {
-					const items = await this.client.listWorkItems(activeProject, m.id);
-					return items.map((it) => ({ ...it, module: m.id }));
-				}),
-			);
-			const unassigned = await this.client.listWorkItems(activeProject, undefined);
-			const workItems = [...unassigned, ...perModuleItems.flat()];
+			// module and cycle membership come from the (id-only) module-issues/cycle-issues lists
+			const [moduleOf, cycleOf] = await Promise.all([
+				this.membership(modules, (id) => client.listModuleWorkItemIds(id, activeProject)),
+				this.membership(cycles, (id) => client.listCycleWorkItemIds(id, activeProject)),
+			]);
+
+			const merged = new Map<string, PlaneWorkItem>();
+			const live = liveIds ? new Set(liveIds) : null;
+			for (const item of previous?.workItems ?? []) {
+				if (!live || live.has(item.id)) merged.set(item.id, item);
+			}
+			const normalized = changed.map((w) => this.normalizeWorkItem(w));
+			for (const item of normalized) merged.set(item.id, item);
+			// records still waiting in the outbox only exist locally
+			for (const item of cached?.workItems ?? []) {
+				if (isTempId(item.id)) merged.set(item.id, item);
+			}
+			// relations are not part of the work item payload; unchanged items keep what the cache had.
+			// A full sync would cost a request per item, so only deltas fetch them.
+			const relationsOf = this.settings.syncRelations && previous
+				? await this.fetchRelations(normalized, activeProject, client)
+				: new Map<string, PlaneRelations>();
+			const cachedRelations = new Map((cached?.workItems ?? []).map((w) => [w.id, w.relations]));
+			const workItems = Array.from(merged.values()).map((item) => ({
+				...item,
+				module: moduleOf.get(item.id) ?? (isTempId(item.id) ? item.module : null),
+				cycle: cycleOf.get(item.id) ?? null,
+				relations: relationsOf.get(item.id) ?? cachedRelations.get(item.id) ?? item.relations,
+			}));
+			const localModules = (cached?.modules ?? []).filter((m) => isTempId(m.id));
 
-			const normalized = workItems.map((w) => this.normalizeWorkItem(w));
-			this.cache.projects[activeProject] = {
-				modules,
-				workItems: normalized,
+			cache.projects[activeProject] = {
+				modules: [...modules, ...localModules],
+				cycles,
+				labels,
+				members,
+				workItems,
 				states,
-				lastSync: Date.now(),
+				lastSync: startedAt,
 			};
-			this.cache.selectedProjectId = activeProject;
+			if (!background) cache.selectedProjectId = activeProject;
+			// savePersisted keeps the caches of other profiles too
 			await this.savePersisted();
+			if (!stillActive()) return;
+			this.syncErrors.delete(activeProject);
+			this.syncAttempts.set(activeProject, { at: startedAt, failures: 0 });
 			this.events.trigger("cache-updated");
+			const changedIds = new Set(normalized.map((w) => w.id));
+			await this.noteSync.refreshLinkedNotes(activeProject, workItems.filter((w) => changedIds.has(w.id)));
+			await this.taskSync.refreshCheckboxes(workItems.filter((w) => changedIds.has(w.id)));
 			if (showNotice) {
 				new Notice(
-					`Plane synced (${this.projectLabel(activeProject)}): ${modules.length} modules, ${workItems.length} work items`,
+					`Plane synced (${this.projectLabel(activeProject)}): ${modules.length} modules, ${cycles.length} cycles, ${workItems.length} work items (${normalized.length} updated)`,
 				);
 			}
 		} catch (error) {
-			new Notice(`Plane sync failed: ${String(error)}`);
+			if (!stillActive()) return;
+			this.syncErrors.set(activeProject, `${this.projectLabel(activeProject)}: ${describeError(error)}`);
+			const failures = (this.syncAttempts.get(activeProject)?.failures ?? 0) + 1;
+			this.syncAttempts.set(activeProject, { at: Date.now(), failures });
+			if (!background) new Notice(`Plane sync failed: ${describeError(error)}`);
 		}
 	}
 
-	openHub(): void {
-		new PlaneHubModal(this.app, this).open();
+	/** Runs the background sync of every project whose interval has passed; paused while Obsidian is in the background. */
+	private syncDueProjects(): void {
+		if (document.visibilityState === "hidden" || !document.hasFocus()) return;
+		const now = Date.now();
+		for (const [projectId, minutes] of Object.entries(this.connection.syncIntervals ?? {})) {
+			if (!minutes || this.syncRuns.has(this.syncKey(projectId))) continue;
+			const interval = minutes * 60 * 1000;
+			const attempt = this.syncAttempts.get(projectId);
+			const last = Math.max(this.cache.projects[projectId]?.lastSync ?? 0, attempt?.at ?? 0);
+			// each failure in a row doubles the wait, so a bad token or slug isn't retried every minute
+			const wait = attempt?.failures
+				? Math.max(interval, Math.min(interval * 2 ** attempt.failures, SYNC_BACKOFF_MAX_MS))
+				: interval;
+			if (now - last >= wait) void this.syncFromPlane(false, projectId, false, true);
+		}
+	}
+
+	/** Maps work item id → container id (module, cycle) from per-container id lists. */
+	private async membership(
+		containers: { id: string }[],
+		listIds: (containerId: string) => Promise<string[]>,
+	): Promise<Map<string, string>> {
+		const owner = new Map<string, string>();
+		const lists = await Promise.all(containers.map(async (c) => ({ id: c.id, ids: await listIds(c.id) })));
+		for (const { id, ids } of lists) {
+			for (const itemId of ids) owner.set(itemId, id);
+		}
+		return owner;
+	}
+
+	private async fetchRelations(items: PlaneWorkItem[], projectId: string, client = this.client): Promise<Map<string, PlaneRelations>> {
+		const fetched = await Promise.all(
+			items.map(async (item) => [item.id, await client.listRelations(item.id, projectId)] as const),
+		);
+		return new Map(fetched);
+	}
+
+	openHub(): PlaneHubModal {
+		const hub = new PlaneHubModal(this.app, this);
+		hub.open();
+		return hub;
+	}
+
+	openOutbox(): void {
+		new OutboxModal(this.app, this).open();
 	}
 
-	async openBoardForProject(projectId?: string): Promise<void> {
+	/** Opens the kanban pane; `myWork` starts it filtered to items assigned to the token's user. */
+	async openBoardForProject(projectId?: string, myWork = false): Promise<void> {
 		const activeProject =
-			projectId ?? this.cache.selectedProjectId ?? this.settings.defaultProjectId ?? this.availableProjects[0]?.id;
+			projectId ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId ?? this.availableProjects[0]?.id;
 		if (!activeProject) {
 			new Notice("Select a project first (settings or hub).");
 			return;
 		}
 		await this.ensureProjectLoaded(activeProject);
-		const leaf = this.getBoardLeaf();
+		const leaf = this.getViewLeaf(VIEW_TYPE_PLANE_BOARD);
+		// keep the per-project layouts of an already open board
+		const current = leaf.getViewState();
 		await leaf.setViewState({
 			type: VIEW_TYPE_PLANE_BOARD,
 			active: true,
-			state: { projectId: activeProject },
+			state: {
+				...(current.type === VIEW_TYPE_PLANE_BOARD ? current.state : {}),
+				projectId: activeProject,
+				myWork,
+			},
+		});
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	/** Opens the dry run for generating notes of the selected project, or of one of its modules. */
+	async openGenerateNotes(moduleId?: string): Promise<void> {
+		const activeProject = this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		if (!activeProject) {
+			new Notice("Select a project first (settings or hub).");
+			return;
+		}
+		await this.ensureProjectLoaded(activeProject);
+		new GenerateNotesModal(this, activeProject, moduleId).open();
+	}
+
+	async openTree(): Promise<void> {
+		const activeProject = this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		if (!activeProject) {
+			new Notice("Select a project first (settings or hub).");
+			return;
+		}
+		await this.ensureProjectLoaded(activeProject);
+		const leaf = this.getViewLeaf(VIEW_TYPE_PLANE_TREE);
+		await leaf.setViewState({ type: VIEW_TYPE_PLANE_TREE, active: true });
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	async openTable(): Promise<void> {
+		const activeProject = this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		if (!activeProject) {
+			new Notice("Select a project first (settings or hub).");
+			return;
+		}
+		await this.ensureProjectLoaded(activeProject);
+		const leaf = this.getViewLeaf(VIEW_TYPE_PLANE_TABLE);
+		// keep the columns, sort and filter of an already open table
+		const current = leaf.getViewState();
+		await leaf.setViewState({
+			type: VIEW_TYPE_PLANE_TABLE,
+			active: true,
+			state: current.type === VIEW_TYPE_PLANE_TABLE ? current.state : undefined,
 		});
 		await this.app.workspace.revealLeaf(leaf);
 	}
 
+	async openTimeline(): Promise<void> {
+		const activeProject = this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		if (!activeProject) {
+			new Notice("Select a project first (settings or hub).");
+			return;
+		}
+		await this.ensureProjectLoaded(activeProject);
+		const leaf = this.getViewLeaf(VIEW_TYPE_PLANE_TIMELINE);
+		await leaf.setViewState({ type: VIEW_TYPE_PLANE_TIMELINE, active: true });
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
 	async upsertWorkItem(
 		item: Partial<PlaneWorkItem> & { name: string },
 		existingId?: string,
 		projectId?: string,
 	): Promise<PlaneWorkItem> {
-		const activeProject = projectId ?? item.project_id ?? this.cache.selectedProjectId ?? this.settings.defaultProjectId;
+		const activeProject = projectId ?? item.project_id ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
 		if (!activeProject) throw new Error("No project selected");
 		const moduleId = this.extractId(item.module) ?? item.module_id ?? null;
 		const payload = {
@@ -189,20 +642,99 @@ export default class PlaneProjectPlugin extends Plugin {
 			state: item.state ?? item.state_id ?? null,
 			priority: item.priority ?? null,
 			module: moduleId,
+			labels: item.labels,
+			assignees: item.assignees,
+			parent: this.extractId(item.parent) ?? null,
+			start_date: item.start_date,
+			target_date: item.target_date,
 		};
 
-		const saved = existingId
-			? await this.client.updateWorkItem(existingId, payload, activeProject)
-			: await this.client.createWorkItem(payload, activeProject);
+		if (this.outbox.shouldQueue(existingId)) {
+			return await this.outbox.queueWorkItem(activeProject, payload, existingId);
+		}
+
+		let saved: PlaneWorkItem;
+		try {
+			saved = existingId
+				? await this.client.updateWorkItem(existingId, payload, activeProject)
+				: await this.client.createWorkItem(payload, activeProject);
+		} catch (error) {
+			if (!isTransientError(error)) throw error;
+			return await this.outbox.queueWorkItem(activeProject, payload, existingId, error);
+		}
+
+		return await this.storeWorkItem({ ...saved, module: saved.module ?? moduleId }, activeProject);
+	}
+
+	/**
+	 * Sends only the given fields of an existing work item, so whatever else changed in
+	 * Plane since the last sync (description, assignees…) is left alone. Single-field
+	 * edits (note properties, table cells, timeline drags) go through here.
+	 */
+	async patchWorkItem(item: PlaneWorkItem, changes: Partial<WorkItemPayload>, projectId?: string): Promise<PlaneWorkItem> {
+		const activeProject = projectId ?? item.project_id ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		if (!activeProject) throw new Error("No project selected");
+
+		if (this.outbox.shouldQueue(item.id)) {
+			return await this.outbox.queueWorkItem(activeProject, changes, item.id);
+		}
+
+		let saved: PlaneWorkItem;
+		try {
+			saved = await this.client.updateWorkItem(item.id, changes, activeProject);
+		} catch (error) {
+			if (!isTransientError(error)) throw error;
+			return await this.outbox.queueWorkItem(activeProject, changes, item.id, error);
+		}
+		// PATCH responses may omit module info, so keep what the cache already knows
+		const module = changes.module !== undefined ? changes.module : (saved.module ?? item.module ?? null);
+		return await this.storeWorkItem({ ...saved, module }, activeProject);
+	}
+
+	/**
+	 * Moves a work item to another state (and/or position) from the kanban.
+	 * The cache is updated before the request so the card moves immediately,
+	 * and restored if Plane rejects the change. Like other edits, the move is
+	 * queued while offline or while the item only exists locally.
+	 */
+	async moveWorkItem(item: PlaneWorkItem, stateId: string, sortOrder?: number, projectId?: string): Promise<boolean> {
+		const activeProject = projectId ?? item.project_id ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		if (!activeProject) throw new Error("No project selected");
+		const payload: { state: string; sort_order?: number } = { state: stateId };
+		if (sortOrder !== undefined) payload.sort_order = sortOrder;
+		if (this.outbox.shouldQueue(item.id)) {
+			await this.outbox.queueWorkItem(activeProject, payload, item.id);
+			return true;
+		}
 
 		const projectCache = this.ensureProjectCache(activeProject);
-		projectCache.workItems = this.upsertCached(
-			projectCache.workItems,
-			this.normalizeWorkItem(saved),
-		);
-		await this.savePersisted();
+		projectCache.workItems = this.upsertCached(projectCache.workItems, {
+			...item,
+			state: stateId,
+			state_id: stateId,
+			sort_order: sortOrder ?? item.sort_order,
+		});
 		this.events.trigger("cache-updated");
-		return saved;
+
+		try {
+			const saved = await this.client.updateWorkItem(item.id, payload, activeProject);
+			// PATCH responses may omit module info, so keep what the cache already knows.
+			const stored = this.normalizeWorkItem({ ...item, ...saved });
+			projectCache.workItems = this.upsertCached(projectCache.workItems, stored);
+			await this.savePersisted();
+			this.events.trigger("cache-updated");
+			await this.noteSync.refreshProperties([stored]);
+			return true;
+		} catch (error) {
+			if (isTransientError(error)) {
+				await this.outbox.queueWorkItem(activeProject, payload, item.id, error);
+				return true;
+			}
+			projectCache.workItems = this.upsertCached(projectCache.workItems, item);
+			this.events.trigger("cache-updated");
+			new Notice(`Plane move failed: ${describeError(error)}`);
+			return false;
+		}
 	}
 
 	async upsertModule(
@@ -210,7 +742,7 @@ export default class PlaneProjectPlugin extends Plugin {
 		existingId?: string,
 		projectId?: string,
 	) {
-		const activeProject = projectId ?? this.cache.selectedProjectId ?? this.settings.defaultProjectId;
+		const activeProject = projectId ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
 		if (!activeProject) throw new Error("No project selected");
 		const payload = {
 			name: module.name,
@@ -220,45 +752,215 @@ export default class PlaneProjectPlugin extends Plugin {
 			target_date: module.target_date ?? null,
 		};
 
+		if (this.outbox.shouldQueue(existingId)) {
+			return await this.outbox.queueModule(activeProject, payload, existingId);
+		}
+
+		let saved: PlaneModule;
+		try {
+			saved = existingId
+				? await this.client.updateModule(existingId, payload, activeProject)
+				: await this.client.createModule(payload, activeProject);
+		} catch (error) {
+			if (!isTransientError(error)) throw error;
+			return await this.outbox.queueModule(activeProject, payload, existingId, error);
+		}
+
+		return await this.storeModule(saved, activeProject);
+	}
+
+	async upsertCycle(cycle: CyclePayload, existingId?: string, projectId?: string): Promise<PlaneCycle> {
+		const activeProject = projectId ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		if (!activeProject) throw new Error("No project selected");
+		const payload = {
+			name: cycle.name,
+			description: cycle.description ?? null,
+			start_date: cycle.start_date ?? null,
+			end_date: cycle.end_date ?? null,
+		};
+
 		const saved = existingId
-			? await this.client.updateModule(existingId, payload, activeProject)
-			: await this.client.createModule(payload, activeProject);
+			? await this.client.updateCycle(existingId, payload, activeProject)
+			: await this.client.createCycle(payload, activeProject);
 
 		const projectCache = this.ensureProjectCache(activeProject);
-		projectCache.modules = this.upsertCached(
-			projectCache.modules,
-			saved,
-		);
+		projectCache.cycles = this.upsertCached(projectCache.cycles, saved);
+		await this.savePersisted();
+		this.events.trigger("cache-updated");
+		return saved;
+	}
+
+	/** Moves a work item into another cycle (or out of its cycle when `cycleId` is null). */
+	async setWorkItemCycle(item: PlaneWorkItem, cycleId: string | null, projectId?: string): Promise<void> {
+		const activeProject = projectId ?? item.project_id ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		if (!activeProject) throw new Error("No project selected");
+		if ((item.cycle ?? null) === cycleId) return;
+		if (item.cycle) await this.client.removeWorkItemFromCycle(item.cycle, item.id, activeProject);
+		if (cycleId) await this.client.addWorkItemsToCycle(cycleId, [item.id], activeProject);
+
+		const projectCache = this.ensureProjectCache(activeProject);
+		const cached = projectCache.workItems.find((w) => w.id === item.id) ?? item;
+		projectCache.workItems = this.upsertCached(projectCache.workItems, { ...cached, cycle: cycleId });
+		await this.savePersisted();
+		this.events.trigger("cache-updated");
+	}
+
+	async createLabel(name: string, color?: string, projectId?: string): Promise<PlaneLabel> {
+		const activeProject = projectId ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		if (!activeProject) throw new Error("No project selected");
+		const saved = await this.client.createLabel({ name, color: color ?? randomLabelColor() }, activeProject);
+		const projectCache = this.ensureProjectCache(activeProject);
+		projectCache.labels = this.upsertCached(projectCache.labels, saved);
 		await this.savePersisted();
 		this.events.trigger("cache-updated");
 		return saved;
 	}
 
+	async addRelation(item: PlaneWorkItem, type: RelationType, relatedId: string): Promise<void> {
+		await this.client.createRelation(item.id, type, [relatedId], item.project_id);
+		await this.refreshRelations(item.project_id, [item.id, relatedId]);
+	}
+
+	async removeRelation(item: PlaneWorkItem, relatedId: string): Promise<void> {
+		await this.client.removeRelation(item.id, relatedId, item.project_id);
+		await this.refreshRelations(item.project_id, [item.id, relatedId]);
+	}
+
+	/** Refetches the relations of the given items, e.g. both ends of an edited link (Plane stores the reverse side too). */
+	async refreshRelations(projectId: string, ids: string[]): Promise<void> {
+		const projectCache = this.ensureProjectCache(projectId);
+		const items = projectCache.workItems.filter((w) => ids.includes(w.id));
+		const relationsOf = await this.fetchRelations(items, projectId);
+		projectCache.workItems = projectCache.workItems.map((w) =>
+			relationsOf.has(w.id) ? { ...w, relations: relationsOf.get(w.id) } : w,
+		);
+		await this.savePersisted();
+		this.events.trigger("cache-updated");
+		await this.noteSync.refreshProperties(projectCache.workItems.filter((w) => relationsOf.has(w.id)));
+	}
+
+	/**
+	 * Asks for confirmation (and what to do with the linked note), then archives or
+	 * deletes the work item in Plane and drops it from the cache.
+	 */
+	async confirmRemoveWorkItem(item: PlaneWorkItem, kind: RemovalKind): Promise<boolean> {
+		const label = `"${item.identifier ? `${item.identifier} ` : ""}${item.name}"`;
+		const choice = await promptRemoval(this.app, kind, label, this.noteSync.findNote(item.id) ? 1 : 0);
+		if (!choice) return false;
+		const projectId = item.project_id;
+		try {
+			// an item that only exists in the outbox just needs its queued create dropped
+			if (!isTempId(item.id)) {
+				if (kind === "delete") await this.client.deleteWorkItem(item.id, projectId);
+				else await this.client.archiveWorkItem(item.id, projectId);
+			}
+		} catch (error) {
+			new Notice(`Plane ${kind} failed: ${describeError(error)}`);
+			return false;
+		}
+		await this.outbox.forget(item.id);
+		const projectCache = this.ensureProjectCache(projectId);
+		projectCache.workItems = projectCache.workItems
+			.filter((w) => w.id !== item.id)
+			.map((w) => (w.parent === item.id ? { ...w, parent: null } : w));
+		await this.savePersisted();
+		this.events.trigger("cache-updated");
+		await this.noteSync.disposeNote(item.id, choice.noteAction);
+		new Notice(`${kind === "delete" ? "Deleted" : "Archived"} ${label}`);
+		return true;
+	}
+
+	async restoreWorkItem(item: PlaneWorkItem): Promise<PlaneWorkItem> {
+		await this.client.restoreWorkItem(item.id, item.project_id);
+		const fresh = await this.client.getWorkItem(item.id, item.project_id);
+		return await this.storeWorkItem(fresh, item.project_id);
+	}
+
+	async confirmRemoveModule(mod: PlaneModule, kind: RemovalKind): Promise<boolean> {
+		const label = `module "${mod.name}"`;
+		const choice = await promptRemoval(this.app, kind, label, 0);
+		if (!choice) return false;
+		const projectId = mod.project_id;
+		try {
+			if (!isTempId(mod.id)) {
+				if (kind === "delete") await this.client.deleteModule(mod.id, projectId);
+				else await this.client.archiveModule(mod.id, projectId);
+			}
+		} catch (error) {
+			new Notice(`Plane ${kind} failed: ${describeError(error)}`);
+			return false;
+		}
+		await this.outbox.forget(mod.id);
+		const projectCache = this.ensureProjectCache(projectId);
+		projectCache.modules = projectCache.modules.filter((m) => m.id !== mod.id);
+		projectCache.workItems = projectCache.workItems.map((w) => (w.module === mod.id ? { ...w, module: null } : w));
+		await this.savePersisted();
+		this.events.trigger("cache-updated");
+		new Notice(`${kind === "delete" ? "Deleted" : "Archived"} ${label}`);
+		return true;
+	}
+
+	async restoreModule(mod: PlaneModule): Promise<PlaneModule> {
+		await this.client.restoreModule(mod.id, mod.project_id);
+		// module membership comes back with the next sync
+		return await this.storeModule(mod, mod.project_id);
+	}
+
+	/** Direct children of a work item, from the cache. */
+	childrenOf(itemId: string, projectId?: string): PlaneWorkItem[] {
+		return this.getProjectDataOrEmpty(projectId).workItems.filter((w) => w.parent === itemId);
+	}
+
+	/** Whether the API token's user is among the item's assignees. */
+	isAssignedToMe(item: PlaneWorkItem): boolean {
+		const me = this.cache.me?.id;
+		return Boolean(me && item.assignees?.includes(me));
+	}
+
+	/** The cycle running today, used as the default board filter. */
+	currentCycle(projectId?: string): PlaneCycle | undefined {
+		// the user's calendar day, not UTC's: cycles turn over at local midnight
+		const now = new Date();
+		const today = [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+			.map((part) => String(part).padStart(2, "0"))
+			.join("-");
+		return this.getProjectDataOrEmpty(projectId).cycles.find(
+			(c) => c.start_date && c.end_date && c.start_date.slice(0, 10) <= today && today <= c.end_date.slice(0, 10),
+		);
+	}
+
+	/** Saves a work item attachment into the vault's attachment folder (next to the item's note when it has one). */
+	async downloadAttachment(item: PlaneWorkItem, attachment: PlaneAttachment): Promise<TFile> {
+		const data = await this.client.downloadAttachment(item.id, attachment.id, item.project_id);
+		const note = this.noteSync.findNote(item.id);
+		const path = await this.app.fileManager.getAvailablePathForAttachment(attachmentName(attachment), note?.path);
+		return await this.app.vault.createBinary(path, data);
+	}
+
 	async ensureNoteForWorkItem(item: PlaneWorkItem): Promise<TFile> {
-		const folder = this.settings.noteFolder || "Plane";
-		const folderExists = await this.app.vault.adapter.exists(folder);
-		if (!folderExists) {
-			await this.app.vault.createFolder(folder);
-		}
-		const slug = item.identifier ? item.identifier.toLowerCase() : item.id.slice(0, 8);
-		const path = `${folder}/${slug}.md`;
-		if (await this.app.vault.adapter.exists(path)) {
-			const file = this.app.vault.getAbstractFileByPath(path);
-			if (file instanceof TFile) return file;
-		}
-		const frontmatter = [
-			"---",
-			`planeId: ${item.id}`,
-			`planeProject: ${item.project_id}`,
-			`planeModule: ${item.module ?? ""}`,
-			`lastPlaneSync: ${new Date().toISOString()}`,
-			"---",
-			`# ${item.name}`,
-			"",
-			item.description_stripped ?? "",
-		].join("\n");
-		const file = await this.app.vault.create(path, frontmatter);
-		return file;
+		return await this.noteSync.ensureNote(item);
+	}
+
+	/** Merges a work item returned by Plane into the cache, keeping fields the response omits. */
+	async storeWorkItem(saved: PlaneWorkItem, projectId?: string): Promise<PlaneWorkItem> {
+		const projectCache = this.ensureProjectCache(projectId ?? saved.project_id);
+		const existing = projectCache.workItems.find((w) => w.id === saved.id);
+		const stored = this.normalizeWorkItem({ ...existing, ...saved });
+		projectCache.workItems = this.upsertCached(projectCache.workItems, stored);
+		await this.savePersisted();
+		this.events.trigger("cache-updated");
+		await this.noteSync.refreshProperties([stored]);
+		return stored;
+	}
+
+	async storeModule(saved: PlaneModule, projectId?: string): Promise<PlaneModule> {
+		const projectCache = this.ensureProjectCache(projectId ?? saved.project_id);
+		const existing = projectCache.modules.find((m) => m.id === saved.id);
+		const stored = { ...existing, ...saved };
+		projectCache.modules = this.upsertCached(projectCache.modules, stored);
+		await this.savePersisted();
+		this.events.trigger("cache-updated");
+		return stored;
 	}
 
 	private upsertCached<T extends { id: string }>(list: T[], item: T): T[] {
@@ -273,46 +975,65 @@ export default class PlaneProjectPlugin extends Plugin {
 		try {
 			const saved = await this.upsertWorkItem({
 				name: title,
-				description_html: body ? `<p>${body}</p>` : null,
-				module: this.settings.defaultModuleId || null,
+				description_html: body ? markdownToHtml(body, { vaultName: this.app.vault.getName() }) : null,
+				module: this.connection.defaultModuleId || null,
 			});
 			new Notice(`Created Plane work item ${saved.name}`);
 		} catch (error) {
-			new Notice(`Plane create failed: ${String(error)}`);
+			new Notice(`Plane create failed: ${describeError(error)}`);
+		}
+	}
+
+	/** Posts Markdown as a comment on a work item and refreshes the mirrored comments of its note. */
+	async addComment(workItemId: string, markdown: string, projectId?: string): Promise<PlaneComment> {
+		const activeProject = projectId ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
+		const comment = await this.client.createComment(
+			workItemId,
+			markdownToHtml(markdown, { vaultName: this.app.vault.getName() }),
+			activeProject,
+		);
+		const note = this.noteSync.findNote(workItemId);
+		const item = this.getProjectDataOrEmpty(activeProject).workItems.find((w) => w.id === workItemId);
+		if (note && item && this.settings.mirrorComments) {
+			await this.noteSync.mirrorComments(note, item);
 		}
+		return comment;
 	}
 
-	private async pushNoteToPlane(file: TFile, planeId: string): Promise<void> {
-		const content = await this.app.vault.read(file);
+	private async commentFromNote(file: TFile, planeId: string, markdown: string): Promise<void> {
+		const planeProject = this.app.metadataCache.getFileCache(file)?.frontmatter?.planeProject as string | undefined;
 		try {
-			const saved = await this.client.updateWorkItem(planeId, {
-				name: file.basename,
-				description_html: content,
-			}, this.cache.selectedProjectId ?? this.settings.defaultProjectId);
-			const projectCache = this.ensureProjectCache(saved.project_id);
-			projectCache.workItems = this.upsertCached(
-				projectCache.workItems,
-				this.normalizeWorkItem(saved),
-			);
-			await this.savePersisted();
-			this.events.trigger("cache-updated");
-			new Notice("Plane work item updated from note");
+			await this.addComment(planeId, markdown, planeProject);
+			new Notice("Comment posted to plane");
 		} catch (error) {
-			new Notice(`Failed to push note: ${String(error)}`);
+			new Notice(`Plane comment failed: ${describeError(error)}`);
 		}
 	}
 
 	normalizeWorkItem(item: PlaneWorkItem): PlaneWorkItem {
 		const moduleId = this.extractId(item.module) ?? this.extractId((item as unknown as { module_id?: unknown }).module_id);
 		const stateId = this.extractId(item.state) ?? item.state_id ?? (typeof item.state === "string" ? item.state : null);
+		const projectIdentifier = this.availableProjects.find((p) => p.id === item.project_id)?.identifier;
 		return {
 			...item,
+			identifier:
+				item.identifier ??
+				(projectIdentifier && item.sequence_id !== undefined ? `${projectIdentifier}-${item.sequence_id}` : undefined),
+			labels: this.extractIds(item.labels),
+			assignees: this.extractIds(item.assignees),
+			parent: this.extractId(item.parent),
 			module: moduleId ?? null,
 			state_id: stateId ?? null,
 			state: stateId ?? null,
 		};
 	}
 
+	/** Expanded relations come back as objects, plain ones as ids. */
+	private extractIds(value: unknown): string[] | undefined {
+		if (!Array.isArray(value)) return undefined;
+		return (value as unknown[]).map((v) => this.extractId(v)).filter((v): v is string => Boolean(v));
+	}
+
 	private extractId(value: unknown): string | null {
 		if (typeof value === "string") return value;
 		if (value && typeof value === "object" && "id" in value && typeof (value as { id: unknown }).id === "string") {
@@ -322,7 +1043,7 @@ export default class PlaneProjectPlugin extends Plugin {
 	}
 
 	getProjectCache(projectId?: string): ProjectCache | undefined {
-		const activeProject = projectId ?? this.cache.selectedProjectId ?? this.settings.defaultProjectId;
+		const activeProject = projectId ?? this.cache.selectedProjectId ?? this.connection.defaultProjectId;
 		if (!activeProject) return undefined;
 		return this.cache.projects[activeProject];
 	}
@@ -331,6 +1052,9 @@ export default class PlaneProjectPlugin extends Plugin {
 		return (
 			this.getProjectCache(projectId) ?? {
 				modules: [],
+				cycles: [],
+				labels: [],
+				members: [],
 				workItems: [],
 				states: [],
 			}
@@ -340,9 +1064,10 @@ export default class PlaneProjectPlugin extends Plugin {
 	async refreshProjectsList(): Promise<void> {
 		try {
 			this.availableProjects = await this.client.listProjects();
+			this.fillIdentifiers();
 			if (!this.cache.selectedProjectId) {
 				this.cache.selectedProjectId =
-					this.settings.defaultProjectId || this.availableProjects[0]?.id || undefined;
+					this.connection.defaultProjectId || this.availableProjects[0]?.id || undefined;
 			}
 			await this.savePersisted();
 			this.events.trigger("cache-updated");
@@ -351,6 +1076,14 @@ export default class PlaneProjectPlugin extends Plugin {
 		}
 	}
 
+	/** Items cached before the project list loaded have no identifier; delta syncs won't bring it, so derive it now. */
+	private fillIdentifiers(): void {
+		for (const project of Object.values(this.cache.projects)) {
+			if (!project.workItems.some((w) => !w.identifier && w.sequence_id !== undefined)) continue;
+			project.workItems = project.workItems.map((w) => (w.identifier ? w : this.normalizeWorkItem(w)));
+		}
+	}
+
 	projectLabel(id: string): string {
 		const match = this.availableProjects.find((p) => p.id === id);
 		return match ? `${match.name}${match.identifier ? ` (${match.identifier})` : ""}` : id;
@@ -358,7 +1091,7 @@ export default class PlaneProjectPlugin extends Plugin {
 
 	ensureProjectCache(projectId: string): ProjectCache {
 		if (!this.cache.projects[projectId]) {
-			this.cache.projects[projectId] = { modules: [], workItems: [], states: [] };
+			this.cache.projects[projectId] = { modules: [], cycles: [], labels: [], members: [], workItems: [], states: [] };
 		}
 		return this.cache.projects[projectId];
 	}
@@ -369,8 +1102,8 @@ export default class PlaneProjectPlugin extends Plugin {
 		}
 	}
 
-	private getBoardLeaf(): WorkspaceLeaf {
-		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_PLANE_BOARD);
+	private getViewLeaf(type: string): WorkspaceLeaf {
+		const existing = this.app.workspace.getLeavesOfType(type);
 		if (existing.length) return existing[0]!;
 		const right = this.app.workspace.getRightLeaf(false);
 		if (right) return right;
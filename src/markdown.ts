@@ -0,0 +1,499 @@
+/**
+ * Converts between Obsidian flavoured Markdown and the HTML Plane's editor stores in
+ * `description_html`. Only the subset Plane can display is handled; the reverse
+ * direction is written so that a note survives a push/pull round trip unchanged.
+ */
+
+export interface MarkdownOptions {
+	/** Vault name used to turn [[wikilinks]] into obsidian:// links and back. */
+	vaultName?: string;
+	/**
+	 * Asset URLs of vault files already uploaded to Plane, keyed by the embed target as
+	 * written (`![[target]]`). Embeds without an entry stay literal text.
+	 */
+	embeds?: Record<string, string>;
+}
+
+const FENCE_RE = /^(\s*)(`{3,}|~{3,})\s*([\w+-]*)\s*$/;
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_RE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_RE = /^\[([ xX])\]\s+(.*)$/;
+const CALLOUT_RE = /^\[!([\w-]+)\][+-]?\s*(.*)$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const IMAGE_EXT_RE = /\.(png|jpe?g|gif|webp|svg|bmp|avif)$/i;
+// remembers the original embed so a pull can turn the asset back into ![[target]]
+const EMBED_ATTR = "data-obsidian-embed";
+
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+// --- Markdown -> HTML ---
+
+export function markdownToHtml(markdown: string, options: MarkdownOptions = {}): string {
+	const lines = markdown.replace(/\r\n?/g, "\n").replace(/%%[\s\S]*?%%/g, "").split("\n");
+	return renderBlocks(lines, options);
+}
+
+function renderBlocks(lines: string[], options: MarkdownOptions): string {
+	const out: string[] = [];
+	let i = 0;
+	while (i < lines.length) {
+		const line = lines[i]!;
+		if (!line.trim()) {
+			i++;
+			continue;
+		}
+
+		const fence = FENCE_RE.exec(line);
+		if (fence) {
+			const marker = fence[2]!;
+			const code: string[] = [];
+			i++;
+			while (i < lines.length && !lines[i]!.trim().startsWith(marker)) {
+				code.push(lines[i]!);
+				i++;
+			}
+			i++; // closing fence
+			const lang = fence[3] ? ` class="language-${escapeHtml(fence[3])}"` : "";
+			out.push(`<pre><code${lang}>${escapeHtml(code.join("\n"))}</code></pre>`);
+			continue;
+		}
+
+		const heading = HEADING_RE.exec(line);
+		if (heading) {
+			const level = heading[1]!.length;
+			out.push(`<h${level}>${renderInline(heading[2]!, options)}</h${level}>`);
+			i++;
+			continue;
+		}
+
+		if (HR_RE.test(line)) {
+			out.push("<hr>");
+			i++;
+			continue;
+		}
+
+		if (/^\s*>/.test(line)) {
+			const quoted: string[] = [];
+			while (i < lines.length && /^\s*>/.test(lines[i]!)) {
+				quoted.push(lines[i]!.replace(/^\s*> ?/, ""));
+				i++;
+			}
+			out.push(renderQuote(quoted, options));
+			continue;
+		}
+
+		if (LIST_RE.test(line)) {
+			const start = i;
+			const indent = leadingWidth(line);
+			i++;
+			while (i < lines.length) {
+				const next = lines[i]!;
+				if (!next.trim()) {
+					// a blank line only continues the list if more indented/list content follows
+					const following = lines[i + 1];
+					if (following !== undefined && (leadingWidth(following) > indent || isListAt(following, indent))) {
+						i++;
+						continue;
+					}
+					break;
+				}
+				if (leadingWidth(next) > indent || isListAt(next, indent)) {
+					i++;
+					continue;
+				}
+				break;
+			}
+			out.push(renderList(lines.slice(start, i), options));
+			continue;
+		}
+
+		if (line.includes("|") && TABLE_SEPARATOR_RE.test(lines[i + 1] ?? "")) {
+			const rows: string[] = [line];
+			i += 2;
+			while (i < lines.length && lines[i]!.includes("|") && lines[i]!.trim()) {
+				rows.push(lines[i]!);
+				i++;
+			}
+			out.push(renderTable(rows, options));
+			continue;
+		}
+
+		const paragraph: string[] = [];
+		while (i < lines.length && lines[i]!.trim() && !startsBlock(lines, i)) {
+			paragraph.push(lines[i]!.trim());
+			i++;
+		}
+		out.push(`<p>${paragraph.map((p) => renderInline(p, options)).join("<br>")}</p>`);
+	}
+	return out.join("");
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+	const line = lines[i]!;
+	return (
+		FENCE_RE.test(line) ||
+		HEADING_RE.test(line) ||
+		HR_RE.test(line) ||
+		/^\s*>/.test(line) ||
+		LIST_RE.test(line) ||
+		(line.includes("|") && TABLE_SEPARATOR_RE.test(lines[i + 1] ?? ""))
+	);
+}
+
+function leadingWidth(line: string): number {
+	const match = /^[ \t]*/.exec(line)?.[0] ?? "";
+	return match.replace(/\t/g, "    ").length;
+}
+
+function dedent(line: string, width: number): string {
+	let removed = 0;
+	let i = 0;
+	while (i < line.length && removed < width && (line[i] === " " || line[i] === "\t")) {
+		removed += line[i] === "\t" ? 4 : 1;
+		i++;
+	}
+	return line.slice(i);
+}
+
+function isListAt(line: string, indent: number): boolean {
+	return LIST_RE.test(line) && leadingWidth(line) === indent;
+}
+
+function renderQuote(lines: string[], options: MarkdownOptions): string {
+	const callout = CALLOUT_RE.exec(lines[0] ?? "");
+	if (!callout) return `<blockquote>${renderBlocks(lines, options)}</blockquote>`;
+	const type = callout[1]!.toLowerCase();
+	const title = callout[2]?.trim();
+	const titleHtml = title ? `<p><strong>${renderInline(title, options)}</strong></p>` : "";
+	return `<blockquote data-callout="${escapeHtml(type)}">${titleHtml}${renderBlocks(lines.slice(1), options)}</blockquote>`;
+}
+
+type ListKind = "ul" | "ol" | "task";
+
+function renderList(lines: string[], options: MarkdownOptions): string {
+	const indent = leadingWidth(lines[0]!);
+	const items: { kind: ListKind; checked: boolean; contentIndent: number; lines: string[] }[] = [];
+	for (const line of lines) {
+		const match = LIST_RE.exec(line);
+		if (match && leadingWidth(line) === indent) {
+			const task = TASK_RE.exec(match[3]!);
+			items.push({
+				kind: task ? "task" : /\d/.test(match[2]!) ? "ol" : "ul",
+				checked: task ? task[1] !== " " : false,
+				contentIndent: indent + match[2]!.length + 1,
+				lines: [task ? task[2]! : match[3]!],
+			});
+			continue;
+		}
+		// continuation or nested content, dedented to the item's content column
+		const item = items[items.length - 1];
+		item?.lines.push(dedent(line, item.contentIndent));
+	}
+
+	const out: string[] = [];
+	let open: ListKind | null = null;
+	for (const item of items) {
+		if (item.kind !== open) {
+			if (open) out.push(closeList(open));
+			out.push(openList(item.kind));
+			open = item.kind;
+		}
+		const content = renderBlocks(item.lines, options);
+		if (item.kind === "task") {
+			out.push(
+				`<li data-type="taskItem" data-checked="${item.checked ? "true" : "false"}"><label><input type="checkbox"${
+					item.checked ? " checked" : ""
+				}><span></span></label><div>${content}</div></li>`,
+			);
+		} else {
+			out.push(`<li>${content}</li>`);
+		}
+	}
+	if (open) out.push(closeList(open));
+	return out.join("");
+}
+
+function openList(kind: ListKind): string {
+	if (kind === "task") return `<ul data-type="taskList">`;
+	return `<${kind}>`;
+}
+
+function closeList(kind: ListKind): string {
+	return kind === "ol" ? "</ol>" : "</ul>";
+}
+
+function splitRow(row: string): string[] {
+	return row
+		.trim()
+		.replace(/^\|/, "")
+		.replace(/\|$/, "")
+		.split("|")
+		.map((cell) => cell.trim());
+}
+
+function renderTable(rows: string[], options: MarkdownOptions): string {
+	const [head, ...body] = rows;
+	const headCells = splitRow(head ?? "").map((cell) => `<th>${renderInline(cell, options)}</th>`);
+	const bodyRows = body.map(
+		(row) => `<tr>${splitRow(row).map((cell) => `<td>${renderInline(cell, options)}</td>`).join("")}</tr>`,
+	);
+	return `<table><thead><tr>${headCells.join("")}</tr></thead><tbody>${bodyRows.join("")}</tbody></table>`;
+}
+
+const INLINE_TOKEN_RE =
+	/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)|!\[\[([^\]]+)\]\]|\[\[([^\]]+)\]\]|!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)|\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)|<(https?:\/\/[^>\s]+)>/g;
+
+export function renderInline(text: string, options: MarkdownOptions = {}): string {
+	// Code spans and links are rendered first and parked behind placeholders so emphasis
+	// rules never reach into them.
+	const tokens: string[] = [];
+	const park = (html: string) => `\uE000${tokens.push(html) - 1}\uE000`;
+	let source = text.replace(/\s\^[\w-]+$/, ""); // block ids
+	source = source.replace(INLINE_TOKEN_RE, (...m: (string | undefined)[]) => {
+		if (m[1]) return park(`<code>${escapeHtml(m[2]!)}</code>`);
+		if (m[3]) return park(renderEmbed(m[3], options));
+		if (m[4]) return park(renderWikilink(m[4], options));
+		if (m[6]) return park(`<img src="${escapeHtml(m[6])}" alt="${escapeHtml(m[5] ?? "")}">`);
+		if (m[8]) return park(`<a href="${escapeHtml(m[8])}">${renderInline(m[7] ?? "", options)}</a>`);
+		if (m[9]) return park(`<a href="${escapeHtml(m[9])}">${escapeHtml(m[9])}</a>`);
+		return m[0] ?? "";
+	});
+
+	let html = escapeHtml(source)
+		.replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, "<strong>$1</strong>")
+		.replace(/__(?=\S)([\s\S]*?\S)__/g, "<strong>$1</strong>")
+		.replace(/\*(?=\S)([\s\S]*?\S)\*/g, "<em>$1</em>")
+		.replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, "$1<em>$2</em>")
+		.replace(/~~(?=\S)([\s\S]*?\S)~~/g, "<s>$1</s>")
+		.replace(/==(?=\S)([\s\S]*?\S)==/g, "<mark>$1</mark>");
+	html = html.replace(/\uE000(\d+)\uE000/g, (_, index: string) => tokens[Number(index)] ?? "");
+	return html;
+}
+
+function renderWikilink(inner: string, options: MarkdownOptions): string {
+	const [target = "", alias] = inner.split("|");
+	const label = alias?.trim() || target.trim();
+	if (!options.vaultName) return escapeHtml(label);
+	const href = `obsidian://open?vault=${encodeURIComponent(options.vaultName)}&file=${encodeURIComponent(target.trim())}`;
+	return `<a href="${escapeHtml(href)}">${escapeHtml(label)}</a>`;
+}
+
+function renderEmbed(inner: string, options: MarkdownOptions): string {
+	const target = inner.split("|")[0]?.split("#")[0]?.trim() ?? "";
+	const url = options.embeds?.[inner] ?? options.embeds?.[target];
+	if (!url) return escapeHtml(`![[${inner}]]`);
+	const name = target.split("/").pop() ?? target;
+	if (IMAGE_EXT_RE.test(target)) {
+		return `<img src="${escapeHtml(url)}" alt="${escapeHtml(name)}" ${EMBED_ATTR}="${escapeHtml(inner)}">`;
+	}
+	return `<a href="${escapeHtml(url)}" ${EMBED_ATTR}="${escapeHtml(inner)}">${escapeHtml(name)}</a>`;
+}
+
+// --- HTML -> Markdown ---
+
+export function htmlToMarkdown(html: string): string {
+	if (!html.trim()) return "";
+	const doc = new DOMParser().parseFromString(html, "text/html");
+	return blocksToMarkdown(doc.body)
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * Renders the children of `parent` as Markdown blocks separated by blank lines.
+ * Lists are kept tight: inside list items a nested list follows its text directly.
+ */
+function blocksToMarkdown(parent: Node, inListItem = false): string {
+	const out: { text: string; list: boolean }[] = [];
+	let inline = "";
+	const flushInline = () => {
+		if (inline.trim()) out.push({ text: inline.trim(), list: false });
+		inline = "";
+	};
+	parent.childNodes.forEach((node) => {
+		if (node instanceof HTMLElement && isBlock(node)) {
+			flushInline();
+			const block = blockToMarkdown(node);
+			if (block.trim()) out.push({ text: block, list: node.tagName === "UL" || node.tagName === "OL" });
+		} else {
+			inline += inlineToMarkdown(node);
+		}
+	});
+	flushInline();
+	return out
+		.map((block, i) => {
+			if (i === 0) return block.text;
+			const prev = out[i - 1]!;
+			// adjacent lists come from one Markdown list whose item type changed
+			const tight = (block.list && prev.list) || (inListItem && (block.list || prev.list));
+			return `${tight ? "\n" : "\n\n"}${block.text}`;
+		})
+		.join("");
+}
+
+const BLOCK_TAGS = new Set([
+	"P", "H1", "H2", "H3", "H4", "H5", "H6", "UL", "OL", "LI", "PRE", "BLOCKQUOTE",
+	"HR", "TABLE", "DIV", "SECTION", "ARTICLE", "FIGURE",
+]);
+
+function isBlock(el: HTMLElement): boolean {
+	return BLOCK_TAGS.has(el.tagName);
+}
+
+function blockToMarkdown(el: HTMLElement): string {
+	switch (el.tagName) {
+		case "P":
+			return inlineChildren(el).trim();
+		case "H1":
+		case "H2":
+		case "H3":
+		case "H4":
+		case "H5":
+		case "H6":
+			return `${"#".repeat(Number(el.tagName.slice(1)))} ${inlineChildren(el).trim()}`;
+		case "HR":
+			return "---";
+		case "PRE": {
+			const code = el.querySelector("code");
+			const lang = /language-([\w+-]+)/.exec(code?.className ?? "")?.[1] ?? "";
+			const text = (code ?? el).textContent ?? "";
+			return `\`\`\`${lang}\n${text.replace(/\n$/, "")}\n\`\`\``;
+		}
+		case "BLOCKQUOTE":
+			return quoteToMarkdown(el);
+		case "UL":
+		case "OL":
+			return listToMarkdown(el);
+		case "TABLE":
+			return tableToMarkdown(el);
+		case "DIV":
+			// Plane wraps task item content in a div
+			return blocksToMarkdown(el, el.parentElement?.tagName === "LI");
+		default:
+			return blocksToMarkdown(el);
+	}
+}
+
+function quoteToMarkdown(el: HTMLElement): string {
+	const type = el.getAttribute("data-callout");
+	let inner: string;
+	let header = "";
+	if (type) {
+		const first = el.firstElementChild;
+		const isTitle =
+			first?.tagName === "P" && first.childNodes.length === 1 && first.firstElementChild?.tagName === "STRONG";
+		const title = isTitle ? inlineChildren(first.firstElementChild as HTMLElement).trim() : "";
+		if (isTitle) first.remove();
+		header = `[!${type}]${title ? ` ${title}` : ""}`;
+	}
+	inner = blocksToMarkdown(el);
+	if (header) inner = inner ? `${header}\n${inner}` : header;
+	return inner
+		.split("\n")
+		.map((line) => (line ? `> ${line}` : ">"))
+		.join("\n");
+}
+
+function listToMarkdown(el: HTMLElement): string {
+	const ordered = el.tagName === "OL";
+	const start = Number(el.getAttribute("start") ?? "1") || 1;
+	const lines: string[] = [];
+	let index = 0;
+	for (const child of Array.from(el.children)) {
+		if (child.tagName !== "LI") continue;
+		const li = child as HTMLElement;
+		let marker = ordered ? `${start + index}. ` : "- ";
+		const isTask = li.getAttribute("data-type") === "taskItem" || li.querySelector(":scope > label > input[type=checkbox]");
+		if (isTask) {
+			const checked = li.getAttribute("data-checked") === "true" || Boolean(li.querySelector(":scope > label > input:checked"));
+			marker += checked ? "[x] " : "[ ] ";
+			li.querySelector(":scope > label")?.remove();
+		}
+		const content = blocksToMarkdown(li, true);
+		const pad = " ".repeat(ordered ? marker.length - (isTask ? 4 : 0) : 2);
+		const [first = "", ...rest] = content.split("\n").filter((line, i, all) => line.trim() || (i > 0 && i < all.length - 1));
+		lines.push(`${marker}${first}`);
+		for (const line of rest) lines.push(line.trim() ? `${pad}${line}` : "");
+		index++;
+	}
+	return lines.join("\n");
+}
+
+function tableToMarkdown(el: HTMLElement): string {
+	const rows = Array.from(el.querySelectorAll("tr")).map((tr) =>
+		Array.from(tr.children).map((cell) => inlineChildren(cell as HTMLElement).trim().replace(/\|/g, "\\|")),
+	);
+	if (!rows.length) return "";
+	const width = Math.max(...rows.map((row) => row.length));
+	const fmt = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => row[i] ?? "").join(" | ")} |`;
+	const [head = [], ...body] = rows;
+	return [fmt(head), `| ${Array.from({ length: width }, () => "---").join(" | ")} |`, ...body.map(fmt)].join("\n");
+}
+
+function inlineChildren(el: HTMLElement): string {
+	let text = "";
+	el.childNodes.forEach((node) => {
+		text += inlineToMarkdown(node);
+	});
+	return text;
+}
+
+function inlineToMarkdown(node: Node): string {
+	if (node.nodeType === Node.TEXT_NODE) {
+		return (node.textContent ?? "").replace(/\s+/g, " ");
+	}
+	if (!(node instanceof HTMLElement)) return "";
+	const inner = () => inlineChildren(node);
+	switch (node.tagName) {
+		case "BR":
+			return "\n";
+		case "STRONG":
+		case "B":
+			return wrap(inner(), "**");
+		case "EM":
+		case "I":
+			return wrap(inner(), "*");
+		case "S":
+		case "DEL":
+		case "STRIKE":
+			return wrap(inner(), "~~");
+		case "MARK":
+			return wrap(inner(), "==");
+		case "CODE":
+			return `\`${node.textContent ?? ""}\``;
+		case "IMG":
+			if (node.hasAttribute(EMBED_ATTR)) return `![[${node.getAttribute(EMBED_ATTR)}]]`;
+			return `![${node.getAttribute("alt") ?? ""}](${node.getAttribute("src") ?? ""})`;
+		case "A":
+			return linkToMarkdown(node, inner());
+		default:
+			return isBlock(node) ? `\n${blockToMarkdown(node)}\n` : inner();
+	}
+}
+
+function wrap(text: string, marker: string): string {
+	const trimmed = text.trim();
+	if (!trimmed) return text;
+	const lead = text.startsWith(" ") ? " " : "";
+	const trail = text.endsWith(" ") ? " " : "";
+	return `${lead}${marker}${trimmed}${marker}${trail}`;
+}
+
+function linkToMarkdown(el: HTMLElement, text: string): string {
+	const href = el.getAttribute("href") ?? "";
+	if (el.hasAttribute(EMBED_ATTR)) return `![[${el.getAttribute(EMBED_ATTR)}]]`;
+	if (href.startsWith("obsidian://open")) {
+		const file = new URLSearchParams(href.slice(href.indexOf("?") + 1)).get("file");
+		if (file) return text.trim() && text.trim() !== file ? `[[${file}|${text.trim()}]]` : `[[${file}]]`;
+	}
+	if (!href) return text;
+	if (text.trim() === href) return `<${href}>`;
+	return `[${text}](${href})`;
+}
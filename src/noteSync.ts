@@ -0,0 +1,852 @@
+import { Notice, TFile, normalizePath, parseYaml } from "obsidian";
+import type PlaneProjectPlugin from "./main";
+import type { PlaneComment, PlaneWorkItem, WorkItemPayload } from "./types";
+import { htmlToMarkdown, markdownToHtml } from "./markdown";
+import { NoteConflictError, describeError, isTransientError } from "./errors";
+import { attachmentName, embedTargets, mimeType } from "./attachments";
+import { promptConflict } from "./ui/conflictModal";
+import type { NoteAction } from "./ui/removeModal";
+import {
+	DEFAULT_NOTE_TEMPLATE,
+	DESCRIPTION_END,
+	DESCRIPTION_START,
+	renderTemplate,
+	sanitizeFilename,
+	withDescriptionBlock,
+	type TemplateValues,
+} from "./template";
+
+const FRONTMATTER_RE = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const TITLE_RE = /^\s*# (.+)(?:\r?\n|$)/;
+const COMMENTS_HEADING = "## Comments";
+// the mirror writes this marker above its section, so a `## Comments` heading of the user's own stays body text
+const COMMENTS_MARKER = "<!-- plane:comments -->";
+const COMMENTS_RE = /^<!-- plane:comments -->[ \t]*$/m;
+// sections mirrored before the marker existed: the heading directly followed by a comment callout
+const LEGACY_COMMENTS_RE = /^## Comments[ \t]*\r?\n(?:[ \t]*\r?\n)*> \[!quote\]/m;
+// the synced description inside a note made from a custom template
+const DESCRIPTION_BLOCK_RE = /<!-- plane:description -->([\s\S]*?)<!-- \/plane:description -->/;
+// notes written before planeHash existed only have mtime to go on; allow for the write itself
+const MTIME_SLACK_MS = 5000;
+// wait for typing in the frontmatter to settle before pushing property edits
+const FIELD_PUSH_DELAY_MS = 1500;
+const PRIORITIES = ["urgent", "high", "medium", "low", "none"];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+// characters Obsidian doesn't allow (or links can't survive) in a folder name
+const UNSAFE_SEGMENT_RE = /[\\/:*?"<>|#^[\]]/g;
+
+export interface NoteParts {
+	/** Raw frontmatter block including the `---` fences, or "" */
+	frontmatter: string;
+	yaml: string;
+	title: string | null;
+	/** What syncs as the description: the description block when the note has one, else everything below the title */
+	body: string;
+	/** Mirrored comments section (marker and heading included), kept out of the body; "" unless asked for */
+	comments: string;
+}
+
+/** What generating notes for a set of work items would do; built by `planNotes` for a dry run. */
+export interface NotePlan {
+	create: PlaneWorkItem[];
+	move: { file: TFile; to: string }[];
+	update: { file: TFile; item: PlaneWorkItem }[];
+	/** Notes edited both locally and in Plane; left to the conflict prompt of the next sync */
+	conflicts: TFile[];
+}
+
+export interface NoteFrontmatter {
+	planeId?: string;
+	planeProject?: string;
+	/** Connection profile the note was synced under; absent on notes from before profiles existed */
+	planeProfile?: string;
+	planeModule?: string;
+	lastPlaneSync?: unknown;
+	planeUpdatedAt?: unknown;
+	planeHash?: string;
+	/** Wikilinks to the notes of the parent, children and related work items */
+	planeParent?: string;
+	planeChildren?: string[];
+	planeBlocks?: string[];
+	planeBlockedBy?: string[];
+	planeDuplicates?: string[];
+	planeRelatesTo?: string[];
+	/** Work item fields mirrored for Dataview and Bases; editing the editable ones pushes them to Plane */
+	identifier?: string;
+	state?: string;
+	stateGroup?: string;
+	priority?: string;
+	module?: string;
+	labels?: string[];
+	startDate?: string;
+	dueDate?: string;
+}
+
+type NoteLinks = Pick<
+	NoteFrontmatter,
+	"planeParent" | "planeChildren" | "planeBlocks" | "planeBlockedBy" | "planeDuplicates" | "planeRelatesTo"
+>;
+
+const LINK_KEYS: (keyof NoteLinks)[] = [
+	"planeParent",
+	"planeChildren",
+	"planeBlocks",
+	"planeBlockedBy",
+	"planeDuplicates",
+	"planeRelatesTo",
+];
+
+type NoteFields = Pick<
+	NoteFrontmatter,
+	"identifier" | "state" | "stateGroup" | "priority" | "module" | "labels" | "startDate" | "dueDate"
+>;
+
+const FIELD_KEYS: (keyof NoteFields)[] = [
+	"identifier",
+	"state",
+	"stateGroup",
+	"priority",
+	"module",
+	"labels",
+	"startDate",
+	"dueDate",
+];
+
+// identifier and stateGroup follow from the others and are rewritten on the next sync
+const EDITABLE_FIELDS: (keyof NoteFields)[] = ["state", "priority", "module", "labels", "startDate", "dueDate"];
+
+/** Splits a note into its parts; the mirrored comments section is only split off when `withComments` is set. */
+export function splitNote(content: string, withComments = false): NoteParts {
+	const fmMatch = FRONTMATTER_RE.exec(content);
+	const frontmatter = fmMatch ? fmMatch[0] : "";
+	let rest = content.slice(frontmatter.length);
+	const titleMatch = TITLE_RE.exec(rest);
+	if (titleMatch) rest = rest.slice(titleMatch[0].length);
+	const commentsMatch = withComments ? commentsSection(rest) : null;
+	const comments = commentsMatch ? rest.slice(commentsMatch.index).trim() : "";
+	if (commentsMatch) rest = rest.slice(0, commentsMatch.index);
+	const block = DESCRIPTION_BLOCK_RE.exec(rest);
+	return {
+		frontmatter,
+		yaml: fmMatch?.[1] ?? "",
+		title: titleMatch?.[1]?.trim() ?? null,
+		body: (block ? (block[1] ?? "") : rest).trim(),
+		comments,
+	};
+}
+
+function commentsSection(content: string): RegExpExecArray | null {
+	return COMMENTS_RE.exec(content) ?? LEGACY_COMMENTS_RE.exec(content);
+}
+
+/** Small non-cryptographic hash (djb2) used to notice local edits to a note body. */
+export function hashBody(body: string): string {
+	let hash = 5381;
+	const text = body.trim();
+	for (let i = 0; i < text.length; i++) {
+		hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+	}
+	return (hash >>> 0).toString(16);
+}
+
+export function commentAuthor(comment: PlaneComment): string {
+	const detail = comment.actor_detail;
+	const fullName = [detail?.first_name, detail?.last_name].filter(Boolean).join(" ");
+	return detail?.display_name || fullName || "Someone";
+}
+
+/** The mirrored fields present in `fm`, with empty values dropped so they compare equal to omitted ones. */
+function pickFields(fm: Record<string, unknown>): NoteFields {
+	const fields: Record<string, unknown> = {};
+	for (const key of FIELD_KEYS) {
+		let value = fm[key];
+		if (value instanceof Date) value = value.toISOString().slice(0, 10);
+		if (value === null || value === undefined || value === "" || (Array.isArray(value) && !value.length)) continue;
+		const text = (entry: unknown) => (typeof entry === "string" ? entry : JSON.stringify(entry));
+		fields[key] = Array.isArray(value) ? value.map(text) : text(value);
+	}
+	return fields as NoteFields;
+}
+
+/** Template frontmatter lines minus the keys the plugin writes itself, so a template can't duplicate them. */
+function withoutKeys(yaml: string, managed: string[]): string[] {
+	const keys = new Set(managed.filter((line) => !/^\s/.test(line)).map((line) => line.split(":")[0]));
+	let skipping = false;
+	return yaml.split(/\r?\n/).filter((line) => {
+		// indented lines and list items belong to the key above them
+		if (/^[\s-]/.test(line)) return !skipping;
+		skipping = keys.has(line.split(":")[0]?.trim() ?? "");
+		return !skipping;
+	}).filter((line) => line.trim());
+}
+
+function toTime(value: unknown): number | null {
+	if (value instanceof Date) return value.getTime();
+	if (typeof value !== "string" && typeof value !== "number") return null;
+	const time = new Date(value).getTime();
+	return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Keeps Plane-linked notes and their work items in step: refreshes notes whose item
+ * changed remotely, pushes note edits back, and asks the user when both sides moved.
+ */
+export class NoteSync {
+	private readonly openConflicts = new Set<string>();
+	/** Mirrored fields as last seen per note path, to tell property edits apart from the rest of the note */
+	private readonly fieldSnapshots = new Map<string, NoteFields>();
+	private readonly pendingFieldPushes = new Map<string, number>();
+
+	constructor(private readonly plugin: PlaneProjectPlugin) {}
+
+	private get app() {
+		return this.plugin.app;
+	}
+
+	/** Mirrored comments are kept out of the body only while mirroring is on. */
+	private split(content: string): NoteParts {
+		return splitNote(content, this.plugin.settings.mirrorComments);
+	}
+
+	/** All notes of the active profile carrying a `planeId`, keyed by that id. */
+	findLinkedNotes(): Map<string, TFile> {
+		const linked = new Map<string, TFile>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const planeId = this.app.metadataCache.getFileCache(file)?.frontmatter?.planeId as unknown;
+			if (typeof planeId === "string" && planeId && this.isActiveProfile(file)) linked.set(planeId, file);
+		}
+		return linked;
+	}
+
+	/** Whether the note was synced under the active profile; notes without `planeProfile` belong to any. */
+	isActiveProfile(file: TFile): boolean {
+		const profile = this.app.metadataCache.getFileCache(file)?.frontmatter?.planeProfile as unknown;
+		return typeof profile !== "string" || !profile || profile === this.plugin.connection.id;
+	}
+
+	findNote(planeId: string): TFile | null {
+		return this.findLinkedNotes().get(planeId) ?? null;
+	}
+
+	async ensureNote(item: PlaneWorkItem): Promise<TFile> {
+		const linked = this.findNote(item.id);
+		if (linked) return linked;
+
+		const folder = this.noteFolderFor(item);
+		await this.ensureFolder(folder);
+		const basename = this.noteBasename(item);
+		let path = `${folder}/${basename}.md`;
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			// a note of that name linked to another item (two items with the same name) gets a numbered sibling
+			if (!this.app.metadataCache.getFileCache(existing)?.frontmatter?.planeId) return existing;
+			for (let n = 1; await this.app.vault.adapter.exists(path); n++) path = `${folder}/${basename} ${n}.md`;
+		}
+
+		const template = await this.noteTemplate();
+		// template text around the description stays in the note and never reaches Plane
+		const rendered = renderTemplate(
+			template === DEFAULT_NOTE_TEMPLATE ? template : withDescriptionBlock(template),
+			this.templateValues(item),
+		);
+		const parts = splitNote(rendered);
+		const links = this.noteLinks(item, this.findLinkedNotes());
+		const fields = this.noteFields(item);
+		const managed = [
+			`planeId: ${item.id}`,
+			`planeProject: ${item.project_id}`,
+			`planeProfile: ${this.plugin.connection.id}`,
+			`planeModule: ${item.module ?? ""}`,
+			`lastPlaneSync: ${new Date().toISOString()}`,
+			`planeUpdatedAt: ${item.updated_at ?? ""}`,
+			`planeHash: "${hashBody(parts.body)}"`,
+			...LINK_KEYS.flatMap((key) => {
+				const value = links[key];
+				if (typeof value === "string") return [`${key}: "${value}"`];
+				return value ? [`${key}:`, ...value.map((link) => `  - "${link}"`)] : [];
+			}),
+			...FIELD_KEYS.flatMap((key) => {
+				const value = fields[key];
+				if (typeof value === "string") return [`${key}: ${JSON.stringify(value)}`];
+				return value ? [`${key}:`, ...value.map((entry) => `  - ${JSON.stringify(entry)}`)] : [];
+			}),
+		];
+		const yaml = [...managed, ...withoutKeys(parts.yaml, managed)].join("\n");
+		const content = `---\n${yaml}\n---\n${rendered.slice(parts.frontmatter.length)}`;
+		const file = await this.app.vault.create(path, content);
+		this.fieldSnapshots.set(file.path, fields);
+		return file;
+	}
+
+	/** Applies the user's choice for the note of a work item that was archived or deleted. */
+	async disposeNote(planeId: string, action: NoteAction): Promise<void> {
+		const file = this.findNote(planeId);
+		if (!file || action === "keep") return;
+		if (action === "delete") {
+			await this.app.fileManager.trashFile(file);
+			return;
+		}
+		await this.moveNote(file, this.plugin.settings.archiveFolder || "Plane/Archive");
+	}
+
+	/** Folder for an item's note: the note folder plus the `{project}`/`{module}` layout, empty segments dropped. */
+	noteFolderFor(item: PlaneWorkItem): string {
+		const base = normalizePath(this.plugin.settings.noteFolder || "Plane");
+		const layout = this.plugin.settings.noteLayout.trim();
+		if (!layout) return base;
+		const project = this.plugin.availableProjects.find((p) => p.id === item.project_id)?.name ?? item.project_id;
+		const moduleId = item.module ?? item.module_id;
+		const moduleName = this.plugin.getProjectDataOrEmpty(item.project_id).modules.find((m) => m.id === moduleId)?.name ?? "";
+		const segments = layout
+			.split("/")
+			.map((segment) =>
+				segment.replace(/\{project\}/g, project).replace(/\{module\}/g, moduleName).replace(UNSAFE_SEGMENT_RE, "").trim(),
+			)
+			.filter(Boolean);
+		return normalizePath([base, ...segments].join("/"));
+	}
+
+	/** Where `ensureNote` creates the item's note (unless another item's note already has that name). */
+	notePath(item: PlaneWorkItem): string {
+		return `${this.noteFolderFor(item)}/${this.noteBasename(item)}.md`;
+	}
+
+	/** Name for a new note: the filename pattern, or the lowercased identifier when there is none. */
+	private noteBasename(item: PlaneWorkItem): string {
+		const slug = item.identifier ? item.identifier.toLowerCase() : item.id.slice(0, 8);
+		const pattern = this.plugin.settings.noteFilename.trim();
+		if (!pattern) return slug;
+		return sanitizeFilename(renderTemplate(pattern, { ...this.templateValues(item), description: "" })) || slug;
+	}
+
+	/** The template file when one is set and readable, else the inline template, else the default. */
+	private async noteTemplate(): Promise<string> {
+		const { noteTemplateFile, noteTemplate } = this.plugin.settings;
+		if (noteTemplateFile.trim()) {
+			const file = this.app.vault.getAbstractFileByPath(normalizePath(noteTemplateFile.trim()));
+			if (file instanceof TFile) return await this.app.vault.cachedRead(file);
+			new Notice(`Plane note template "${noteTemplateFile}" not found; using the inline template`);
+		}
+		return noteTemplate.trim() ? noteTemplate : DEFAULT_NOTE_TEMPLATE;
+	}
+
+	private templateValues(item: PlaneWorkItem): TemplateValues {
+		const fields = this.noteFields(item);
+		return {
+			id: item.id,
+			identifier: item.identifier ?? "",
+			name: item.name,
+			project: this.plugin.availableProjects.find((p) => p.id === item.project_id)?.name ?? item.project_id,
+			state: fields.state ?? "",
+			stateGroup: fields.stateGroup ?? "",
+			priority: fields.priority ?? "",
+			module: fields.module ?? "",
+			labels: (fields.labels ?? []).join(", "),
+			startDate: fields.startDate ?? "",
+			dueDate: fields.dueDate ?? "",
+			description: this.remoteBody(item),
+			url: this.plugin.client.workItemUrl(item.id, item.project_id),
+		};
+	}
+
+	/**
+	 * Dry run of generating notes for `items`: notes to create, notes outside their layout
+	 * folder to move, and notes whose item changed in Plane to update. Only notes inside the
+	 * note folder are moved, so notes filed elsewhere by hand (or archived) stay put.
+	 */
+	async planNotes(items: PlaneWorkItem[]): Promise<NotePlan> {
+		const linked = this.findLinkedNotes();
+		const plan: NotePlan = { create: [], move: [], update: [], conflicts: [] };
+		for (const item of items) {
+			const file = linked.get(item.id);
+			if (!file) {
+				plan.create.push(item);
+				continue;
+			}
+			const folder = this.noteFolderFor(item);
+			if (this.isRelocatable(file) && file.parent?.path !== folder) plan.move.push({ file, to: folder });
+			const parts = this.split(await this.app.vault.read(file));
+			const fm = this.parseFrontmatter(parts.yaml);
+			if (!this.remoteChanged(item, fm)) continue;
+			if (this.localChanged(file, parts, fm) && parts.body !== this.remoteBody(item)) plan.conflicts.push(file);
+			else plan.update.push({ file, item });
+		}
+		return plan;
+	}
+
+	async applyNotePlan(plan: NotePlan): Promise<void> {
+		for (const { file, to } of plan.move) await this.moveNote(file, to);
+		for (const { file, item } of plan.update) await this.writeRemote(file, item);
+		for (const item of plan.create) await this.ensureNote(item);
+		// new notes turn links to them from fallback slugs into real basenames
+		if (plan.create.length) await this.refreshProperties(this.plugin.getProjectDataOrEmpty(plan.create[0]?.project_id).workItems);
+	}
+
+	/** Moves notes whose module changed into their new layout folder. */
+	private async relocateNotes(items: PlaneWorkItem[], linked: Map<string, TFile>): Promise<void> {
+		if (!this.plugin.settings.noteLayout.trim()) return;
+		for (const item of items) {
+			const file = linked.get(item.id);
+			if (!file || !this.isRelocatable(file)) continue;
+			const folder = this.noteFolderFor(item);
+			if (file.parent?.path !== folder) await this.moveNote(file, folder);
+		}
+	}
+
+	private isRelocatable(file: TFile): boolean {
+		const base = normalizePath(this.plugin.settings.noteFolder || "Plane");
+		const archive = normalizePath(this.plugin.settings.archiveFolder || "Plane/Archive");
+		return file.path.startsWith(`${base}/`) && !file.path.startsWith(`${archive}/`);
+	}
+
+	/** Moves a note into `folder`, numbering the name when it is taken. */
+	private async moveNote(file: TFile, folder: string): Promise<void> {
+		await this.ensureFolder(folder);
+		let path = `${folder}/${file.name}`;
+		for (let n = 1; await this.app.vault.adapter.exists(path); n++) {
+			path = `${folder}/${file.basename} ${n}.${file.extension}`;
+		}
+		await this.app.fileManager.renameFile(file, path);
+	}
+
+	private async ensureFolder(folder: string): Promise<void> {
+		let path = "";
+		for (const segment of folder.split("/")) {
+			path = path ? `${path}/${segment}` : segment;
+			if (!(await this.app.vault.adapter.exists(path))) await this.app.vault.createFolder(path);
+		}
+	}
+
+	/**
+	 * Called after a sync of `projectId` with its changed work items. Notes whose item
+	 * changed remotely are rewritten unless they were edited locally too, in which
+	 * case the conflict is handed to the user (without holding up the sync).
+	 */
+	async refreshLinkedNotes(projectId: string, items: PlaneWorkItem[]): Promise<void> {
+		const linked = this.findLinkedNotes();
+		const conflicts: { file: TFile; item: PlaneWorkItem; local: string }[] = [];
+
+		for (const item of items) {
+			const file = linked.get(item.id);
+			if (!file) continue;
+			if (this.plugin.settings.mirrorComments) await this.mirrorComments(file, item);
+			const parts = this.split(await this.app.vault.read(file));
+			const fm = this.parseFrontmatter(parts.yaml);
+			if (!this.remoteChanged(item, fm)) continue;
+
+			if (this.localChanged(file, parts, fm) && parts.body !== this.remoteBody(item)) {
+				conflicts.push({ file, item, local: parts.body });
+			} else {
+				await this.writeRemote(file, item);
+			}
+		}
+
+		// links and mirrored fields go stale without the item itself changing too (a new
+		// child or relation elsewhere, a renamed state or module), so check every cached item
+		const cached = this.plugin.getProjectDataOrEmpty(projectId).workItems;
+		await this.refreshProperties(cached, linked);
+		await this.relocateNotes(items, linked);
+
+		void this.resolveConflicts(conflicts);
+	}
+
+	private async resolveConflicts(conflicts: { file: TFile; item: PlaneWorkItem; local: string }[]): Promise<void> {
+		for (const conflict of conflicts) {
+			await this.resolveConflict(conflict.file, conflict.item, conflict.local);
+		}
+	}
+
+	async pushNote(file: TFile, planeId: string): Promise<void> {
+		if (!this.isActiveProfile(file)) {
+			const profile = this.app.metadataCache.getFileCache(file)?.frontmatter?.planeProfile as string;
+			new Notice(`This note belongs to the "${this.plugin.profileName(profile)}" profile; switch to it to push`);
+			return;
+		}
+		const { outbox } = this.plugin;
+		const projectId = this.projectOf(file);
+		if (outbox.shouldQueue(planeId)) {
+			await outbox.queueNotePush(file, planeId, projectId);
+			return;
+		}
+		try {
+			if (await this.pushNoteNow(file, planeId)) new Notice("Plane work item updated from note");
+		} catch (error) {
+			if (isTransientError(error)) {
+				await outbox.queueNotePush(file, planeId, projectId, error);
+				return;
+			}
+			new Notice(`Failed to push note: ${describeError(error)}`);
+		}
+	}
+
+	/**
+	 * Pushes the note body to its work item. On conflict the user picks a side, or, when
+	 * not `interactive` (queue replay), a `NoteConflictError` is thrown. Resolves to false
+	 * when the user left the conflict unresolved. Throws on failure.
+	 */
+	async pushNoteNow(file: TFile, planeId: string, interactive = true): Promise<boolean> {
+		const parts = this.split(await this.app.vault.read(file));
+		const fm = this.parseFrontmatter(parts.yaml);
+		const projectId = fm.planeProject || this.projectOf(file);
+		const remote = this.plugin.normalizeWorkItem(await this.plugin.client.getWorkItem(planeId, projectId));
+		if (this.remoteChanged(remote, fm) && this.remoteBody(remote) !== parts.body) {
+			if (!interactive) throw new NoteConflictError(file.path);
+			return await this.resolveConflict(file, remote, parts.body);
+		}
+		await this.pushBody(file, remote, parts.title ?? file.basename, parts.body);
+		return true;
+	}
+
+	private projectOf(file: TFile): string {
+		const planeProject = this.app.metadataCache.getFileCache(file)?.frontmatter?.planeProject as unknown;
+		if (typeof planeProject === "string" && planeProject) return planeProject;
+		return this.plugin.cache.selectedProjectId || this.plugin.connection.defaultProjectId;
+	}
+
+	/** Resolves to true once the user picked a side and it was applied. */
+	private async resolveConflict(file: TFile, item: PlaneWorkItem, local: string): Promise<boolean> {
+		if (this.openConflicts.has(file.path)) return false;
+		this.openConflicts.add(file.path);
+		try {
+			const resolution = await promptConflict(this.app, file.basename, local, this.remoteBody(item));
+			if (!resolution) return false;
+			const title = this.split(await this.app.vault.read(file)).title ?? item.name;
+			if (resolution.kind === "remote") {
+				await this.writeRemote(file, item);
+			} else if (resolution.kind === "local") {
+				await this.pushBody(file, item, title, local);
+			} else {
+				await this.writeBody(file, title, resolution.text);
+				await this.pushBody(file, item, title, resolution.text);
+			}
+			new Notice(`Resolved Plane conflict for ${file.basename}`);
+			return true;
+		} catch (error) {
+			new Notice(`Failed to resolve conflict: ${describeError(error)}`);
+			return false;
+		} finally {
+			this.openConflicts.delete(file.path);
+		}
+	}
+
+	private async pushBody(file: TFile, item: PlaneWorkItem, title: string, body: string): Promise<void> {
+		const embeds = await this.uploadEmbeds(file, item, body);
+		const saved = await this.plugin.client.updateWorkItem(
+			item.id,
+			{ name: title, description_html: markdownToHtml(body, { vaultName: this.app.vault.getName(), embeds }) },
+			item.project_id,
+		);
+		const stored = await this.plugin.storeWorkItem(saved, item.project_id);
+		await this.markSynced(file, stored, body);
+	}
+
+	/**
+	 * Uploads the vault files embedded in `body` as attachments of the work item and
+	 * returns their asset URLs by embed target. Files already attached (same name and
+	 * size) are reused rather than uploaded again.
+	 */
+	private async uploadEmbeds(file: TFile, item: PlaneWorkItem, body: string): Promise<Record<string, string>> {
+		const targets = embedTargets(body);
+		if (!targets.length) return {};
+		const { client } = this.plugin;
+		const existing = await client.listAttachments(item.id, item.project_id);
+		const urls: Record<string, string> = {};
+		for (const target of targets) {
+			const linkpath = target.split("|")[0]?.split("#")[0]?.trim() ?? "";
+			const embedded = this.app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+			// notes are transcluded, not attached
+			if (!embedded || embedded.extension === "md") continue;
+			let attachment = existing.find(
+				(a) => attachmentName(a) === embedded.name && a.attributes?.size === embedded.stat.size,
+			);
+			if (!attachment) {
+				attachment = await client.uploadAttachment(
+					item.id,
+					{ name: embedded.name, type: mimeType(embedded.extension), data: await this.app.vault.readBinary(embedded) },
+					item.project_id,
+				);
+				existing.push(attachment);
+			}
+			urls[target] = client.attachmentUrl(item.id, attachment.id, item.project_id);
+		}
+		return urls;
+	}
+
+	private async writeRemote(file: TFile, item: PlaneWorkItem): Promise<void> {
+		const body = this.remoteBody(item);
+		await this.writeBody(file, item.name, body);
+		await this.markSynced(file, item, body);
+	}
+
+	private async writeBody(file: TFile, title: string, body: string): Promise<void> {
+		await this.app.vault.process(file, (content) => {
+			const parts = this.split(content);
+			if (DESCRIPTION_BLOCK_RE.test(content)) {
+				// a note from a custom template: only the title line and the description block are Plane's
+				const rest = content
+					.slice(parts.frontmatter.length)
+					.replace(TITLE_RE, (line, old: string) => line.replace(`# ${old}`, `# ${title}`))
+					.replace(DESCRIPTION_BLOCK_RE, () => `${DESCRIPTION_START}\n${body.trim()}\n${DESCRIPTION_END}`);
+				return parts.frontmatter + rest;
+			}
+			const comments = parts.comments ? `\n${parts.comments}\n` : "";
+			return `${parts.frontmatter}# ${title}\n\n${body.trim()}\n${comments}`;
+		});
+	}
+
+	/** Rewrites the note's `## Comments` section from Plane; the body is left alone. */
+	async mirrorComments(file: TFile, item: PlaneWorkItem, comments?: PlaneComment[]): Promise<void> {
+		const list = comments ?? (await this.plugin.client.listComments(item.id, item.project_id));
+		const section = this.renderComments(list);
+		await this.app.vault.process(file, (content) => {
+			const parts = splitNote(content, true);
+			if (parts.comments.trim() === section.trim()) return content;
+			const commentsAt = commentsSection(content);
+			const before = (commentsAt ? content.slice(0, commentsAt.index) : content).trimEnd();
+			return section ? `${before}\n\n${section}\n` : `${before}\n`;
+		});
+	}
+
+	private renderComments(comments: PlaneComment[]): string {
+		if (!comments.length) return "";
+		const sorted = [...comments].sort((a, b) => (a.created_at ?? "").localeCompare(b.created_at ?? ""));
+		const blocks = sorted.map((comment) => {
+			const author = commentAuthor(comment);
+			const when = comment.created_at ? new Date(comment.created_at).toLocaleString() : "";
+			const text = comment.comment_html ? htmlToMarkdown(comment.comment_html) : (comment.comment_stripped ?? "");
+			const lines = [`[!quote] ${author}${when ? ` · ${when}` : ""}`, ...text.split("\n")];
+			return lines.map((line) => (line ? `> ${line}` : ">")).join("\n");
+		});
+		return [COMMENTS_MARKER, COMMENTS_HEADING, "", blocks.join("\n\n")].join("\n");
+	}
+
+	private async markSynced(file: TFile, item: PlaneWorkItem, body: string): Promise<void> {
+		const links = this.noteLinks(item, this.findLinkedNotes());
+		const fields = this.noteFields(item);
+		this.fieldSnapshots.set(file.path, fields);
+		await this.app.fileManager.processFrontMatter(file, (fm: NoteFrontmatter) => {
+			fm.planeId = item.id;
+			fm.planeProject = item.project_id;
+			fm.planeProfile = this.plugin.connection.id;
+			fm.lastPlaneSync = new Date().toISOString();
+			fm.planeUpdatedAt = item.updated_at ?? "";
+			fm.planeHash = hashBody(body);
+			this.applyProperties(fm, { ...links, ...fields });
+		});
+	}
+
+	/**
+	 * Rewrites the link and mirrored field properties of the items' notes where they went stale.
+	 * Also moves `planeUpdatedAt` on when the item changed but kept the synced description, as
+	 * the plugin's own edits (properties, board, table, checkboxes) do; otherwise the next push
+	 * would take them for a remote change.
+	 */
+	async refreshProperties(items: PlaneWorkItem[], linked = this.findLinkedNotes()): Promise<void> {
+		for (const item of items) {
+			const file = linked.get(item.id);
+			if (!file) continue;
+			const links = this.noteLinks(item, linked);
+			const fields = this.noteFields(item);
+			const current = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+			const staleLinks = LINK_KEYS.some((key) => JSON.stringify(current[key]) !== JSON.stringify(links[key]));
+			const staleFields = JSON.stringify(pickFields(current)) !== JSON.stringify(fields);
+			const caughtUp = this.onlyTimestampChanged(item, current);
+			if (!staleLinks && !staleFields && !caughtUp) continue;
+			this.fieldSnapshots.set(file.path, fields);
+			await this.app.fileManager.processFrontMatter(file, (fm: NoteFrontmatter) => {
+				this.applyProperties(fm, { ...links, ...fields });
+				if (caughtUp) fm.planeUpdatedAt = item.updated_at ?? "";
+			});
+		}
+	}
+
+	private applyProperties(fm: NoteFrontmatter, properties: NoteLinks & NoteFields): void {
+		for (const key of [...LINK_KEYS, ...FIELD_KEYS]) {
+			if (properties[key] === undefined) delete fm[key];
+			else (fm as Record<string, unknown>)[key] = properties[key];
+		}
+	}
+
+	private noteFields(item: PlaneWorkItem): NoteFields {
+		const data = this.plugin.getProjectDataOrEmpty(item.project_id);
+		const state = data.states.find((s) => s.id === (item.state_id ?? item.state));
+		const moduleId = item.module ?? item.module_id;
+		const labels = (item.labels ?? [])
+			.map((id) => data.labels.find((l) => l.id === id)?.name)
+			.filter((name): name is string => Boolean(name));
+		return pickFields({
+			identifier: item.identifier,
+			state: state?.name,
+			stateGroup: state?.group,
+			priority: item.priority || "none",
+			module: data.modules.find((m) => m.id === moduleId)?.name,
+			labels,
+			startDate: item.start_date,
+			dueDate: item.target_date,
+		});
+	}
+
+	/** Records the mirrored fields of every linked note, so later edits can be told apart. */
+	snapshotFields(): void {
+		for (const [, file] of this.findLinkedNotes()) {
+			this.fieldSnapshots.set(file.path, pickFields(this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}));
+		}
+	}
+
+	onNoteRenamed(file: TFile, oldPath: string): void {
+		const snapshot = this.fieldSnapshots.get(oldPath);
+		if (!snapshot) return;
+		this.fieldSnapshots.delete(oldPath);
+		this.fieldSnapshots.set(file.path, snapshot);
+	}
+
+	/** Metadata of a note changed; pushes edited mirrored fields once the edits settle. */
+	onNoteChanged(file: TFile): void {
+		const pending = this.pendingFieldPushes.get(file.path);
+		if (pending !== undefined) window.clearTimeout(pending);
+		this.pendingFieldPushes.set(
+			file.path,
+			window.setTimeout(() => {
+				this.pendingFieldPushes.delete(file.path);
+				void this.pushFields(file);
+			}, FIELD_PUSH_DELAY_MS),
+		);
+	}
+
+	private async pushFields(file: TFile): Promise<void> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const planeId = fm?.planeId as unknown;
+		if (!fm || typeof planeId !== "string" || !planeId || !this.isActiveProfile(file)) return;
+		const fields = pickFields(fm);
+		const previous = this.fieldSnapshots.get(file.path);
+		this.fieldSnapshots.set(file.path, fields);
+		// first sighting (e.g. a note created by hand): nothing to compare against yet
+		if (!previous) return;
+		const edited = EDITABLE_FIELDS.filter((key) => JSON.stringify(fields[key]) !== JSON.stringify(previous[key]));
+		if (!edited.length) return;
+
+		const item = this.plugin.getProjectDataOrEmpty(this.projectOf(file)).workItems.find((w) => w.id === planeId);
+		if (!item) return;
+		const { changes, errors } = this.fieldChanges(item, fields, edited);
+		if (errors.length) {
+			new Notice(`Plane properties of ${file.basename} not pushed:\n${errors.join("\n")}`);
+			return;
+		}
+		try {
+			await this.plugin.patchWorkItem(item, changes, item.project_id);
+			new Notice(`Plane work item updated from ${file.basename} properties`);
+		} catch (error) {
+			new Notice(`Failed to push properties: ${describeError(error)}`);
+		}
+	}
+
+	/** Turns edited mirrored fields into work item changes, validated against the project's states, modules and labels. */
+	private fieldChanges(
+		item: PlaneWorkItem,
+		fields: NoteFields,
+		edited: (keyof NoteFields)[],
+	): { changes: Partial<WorkItemPayload>; errors: string[] } {
+		const data = this.plugin.getProjectDataOrEmpty(item.project_id);
+		const changes: Partial<WorkItemPayload> = {};
+		const errors: string[] = [];
+		const byName = <T extends { id: string; name: string }>(list: T[], value: string) =>
+			list.find((entry) => entry.id === value || entry.name.toLowerCase() === value.toLowerCase());
+
+		for (const key of edited) {
+			const value = fields[key];
+			if (key === "state") {
+				const state = typeof value === "string" ? byName(data.states, value) : undefined;
+				if (state) changes.state = state.id;
+				else errors.push(`Unknown state "${String(value ?? "")}"; use ${data.states.map((s) => s.name).join(", ")}`);
+			} else if (key === "priority") {
+				const priority = typeof value === "string" ? value.toLowerCase() : "none";
+				if (PRIORITIES.includes(priority)) changes.priority = priority === "none" ? null : priority;
+				else errors.push(`Unknown priority "${String(value)}"; use ${PRIORITIES.join(", ")}`);
+			} else if (key === "module") {
+				const mod = typeof value === "string" ? byName(data.modules, value) : undefined;
+				if (value === undefined || mod) changes.module = mod?.id ?? null;
+				else errors.push(`Unknown module "${String(value)}"`);
+			} else if (key === "labels") {
+				const names = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+				const ids: string[] = [];
+				for (const name of names.map((n) => n.trim()).filter(Boolean)) {
+					const label = byName(data.labels, name);
+					if (label) ids.push(label.id);
+					else errors.push(`Unknown label "${name}"`);
+				}
+				changes.labels = ids;
+			} else if (key === "startDate" || key === "dueDate") {
+				if (value !== undefined && (typeof value !== "string" || !DATE_RE.test(value))) {
+					errors.push(`${key} must be a YYYY-MM-DD date, got "${String(value)}"`);
+				} else {
+					changes[key === "startDate" ? "start_date" : "target_date"] = value ?? null;
+				}
+			}
+		}
+		return { changes, errors };
+	}
+
+	/**
+	 * Wikilinks for the parent, children and relations, so the graph view shows the
+	 * hierarchy and dependencies. Items without a note link to the note `ensureNote`
+	 * would create for them. Empty lists are left out.
+	 */
+	private noteLinks(item: PlaneWorkItem, linked: Map<string, TFile>): NoteLinks {
+		const items = this.plugin.getProjectDataOrEmpty(item.project_id).workItems;
+		const linkTo = (id: string): string | undefined => {
+			const file = linked.get(id);
+			if (file) return `[[${file.basename}]]`;
+			const target = items.find((w) => w.id === id);
+			return target ? `[[${this.noteBasename(target)}]]` : undefined;
+		};
+		const list = (ids: string[] | undefined): string[] | undefined => {
+			const links = (ids ?? []).map(linkTo).filter((link): link is string => Boolean(link));
+			return links.length ? links : undefined;
+		};
+		return {
+			planeParent: item.parent ? linkTo(item.parent) : undefined,
+			planeChildren: list(this.plugin.childrenOf(item.id, item.project_id).map((child) => child.id)),
+			planeBlocks: list(item.relations?.blocking),
+			planeBlockedBy: list(item.relations?.blocked_by),
+			planeDuplicates: list(item.relations?.duplicate),
+			planeRelatesTo: list(item.relations?.relates_to),
+		};
+	}
+
+	private remoteBody(item: PlaneWorkItem): string {
+		if (item.description_html) return htmlToMarkdown(item.description_html);
+		return (item.description_stripped ?? "").trim();
+	}
+
+	private remoteChanged(item: PlaneWorkItem, fm: NoteFrontmatter): boolean {
+		const remote = toTime(item.updated_at);
+		if (remote === null) return false;
+		const known = toTime(fm.planeUpdatedAt);
+		if (known !== null) return remote !== known;
+		const lastSync = toTime(fm.lastPlaneSync);
+		return lastSync === null || remote > lastSync;
+	}
+
+	/** True when the item is newer than the note knows, but its description is still the one last synced. */
+	private onlyTimestampChanged(item: PlaneWorkItem, fm: NoteFrontmatter): boolean {
+		const remote = toTime(item.updated_at);
+		if (remote === null || !fm.planeHash || remote === toTime(fm.planeUpdatedAt)) return false;
+		return hashBody(this.remoteBody(item)) === String(fm.planeHash);
+	}
+
+	private localChanged(file: TFile, parts: NoteParts, fm: NoteFrontmatter): boolean {
+		if (fm.planeHash) return hashBody(parts.body) !== String(fm.planeHash);
+		const lastSync = toTime(fm.lastPlaneSync);
+		return lastSync === null || file.stat.mtime > lastSync + MTIME_SLACK_MS;
+	}
+
+	private parseFrontmatter(yaml: string): NoteFrontmatter {
+		if (!yaml.trim()) return {};
+		try {
+			const parsed = parseYaml(yaml) as unknown;
+			return parsed && typeof parsed === "object" ? (parsed as NoteFrontmatter) : {};
+		} catch {
+			return {};
+		}
+	}
+}
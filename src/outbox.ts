@@ -0,0 +1,379 @@
+import { Notice, TFile } from "obsidian";
+import type PlaneProjectPlugin from "./main";
+import { NoteConflictError, describeError, isTransientError } from "./errors";
+import { DEFAULT_PROFILE } from "./settings";
+import type { ModulePayload, OutboxEntry, PlaneModule, PlaneWorkItem, WorkItemPayload } from "./types";
+
+const TEMP_PREFIX = "tmp-";
+
+export function isTempId(id: string | null | undefined): boolean {
+	return Boolean(id?.startsWith(TEMP_PREFIX));
+}
+
+function newId(prefix = ""): string {
+	return `${prefix}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Persistent queue of mutations that could not reach Plane. The cache is updated
+ * optimistically (new records get temporary ids) and the queue is replayed in
+ * order once Plane is reachable again.
+ */
+export class Outbox {
+	entries: OutboxEntry[] = [];
+	private replaying: Promise<void> | null = null;
+
+	constructor(private readonly plugin: PlaneProjectPlugin) {}
+
+	/** Pending entries of the active profile; the others wait until their profile is active again. */
+	get pendingCount(): number {
+		return this.entries.filter((e) => e.status === "pending" && this.isActiveProfile(e)).length;
+	}
+
+	isActiveProfile(entry: OutboxEntry): boolean {
+		return (entry.profileId ?? DEFAULT_PROFILE.id) === this.plugin.connection.id;
+	}
+
+	/**
+	 * New mutations go through the queue while it still holds pending work (to keep
+	 * ordering), when they target a record that only exists locally, or when offline.
+	 */
+	shouldQueue(targetId?: string | null): boolean {
+		return this.pendingCount > 0 || isTempId(targetId) || !navigator.onLine;
+	}
+
+	async queueWorkItem(projectId: string, payload: WorkItemPayload, existingId?: string, reason?: unknown): Promise<PlaneWorkItem>;
+	/** Queues an update of just the given fields. */
+	async queueWorkItem(
+		projectId: string,
+		payload: Partial<WorkItemPayload>,
+		existingId: string,
+		reason?: unknown,
+	): Promise<PlaneWorkItem>;
+	async queueWorkItem(
+		projectId: string,
+		payload: Partial<WorkItemPayload>,
+		existingId?: string,
+		reason?: unknown,
+	): Promise<PlaneWorkItem> {
+		const targetId = existingId ?? newId(TEMP_PREFIX);
+		// cache first: pushing may start a replay that swaps the temporary id out again
+		const existing = this.plugin.getProjectDataOrEmpty(projectId).workItems.find((w) => w.id === targetId);
+		const optimistic = await this.plugin.storeWorkItem(
+			{
+				...existing,
+				...payload,
+				name: payload.name ?? existing?.name ?? "",
+				id: targetId,
+				project_id: projectId,
+				state_id: payload.state ?? existing?.state_id ?? null,
+			},
+			projectId,
+		);
+		await this.push({ kind: "work-item", op: existingId ? "update" : "create", targetId, projectId, payload }, reason);
+		return optimistic;
+	}
+
+	async queueModule(
+		projectId: string,
+		payload: ModulePayload,
+		existingId?: string,
+		reason?: unknown,
+	): Promise<PlaneModule> {
+		const targetId = existingId ?? newId(TEMP_PREFIX);
+		const existing = this.plugin.getProjectDataOrEmpty(projectId).modules.find((m) => m.id === targetId);
+		const optimistic = await this.plugin.storeModule(
+			{ ...existing, ...payload, status: payload.status ?? undefined, id: targetId, project_id: projectId },
+			projectId,
+		);
+		await this.push({ kind: "module", op: existingId ? "update" : "create", targetId, projectId, payload }, reason);
+		return optimistic;
+	}
+
+	/** Remembers the task line a queued create came from, so it can be annotated once Plane assigns an identifier. */
+	async rememberTask(tempId: string, path: string, line: string): Promise<boolean> {
+		const entry = this.entries.find((e) => e.kind === "work-item" && e.op === "create" && e.targetId === tempId);
+		if (entry?.kind !== "work-item" || entry.op !== "create") return false;
+		entry.task = { path, line };
+		await this.save();
+		return true;
+	}
+
+	async queueNotePush(file: TFile, planeId: string, projectId: string, reason?: unknown): Promise<void> {
+		// one queued push per note is enough; the replay reads the note as it is then
+		this.entries = this.entries.filter((e) => !(e.kind === "note-push" && e.payload.path === file.path));
+		await this.push({ kind: "note-push", op: "update", targetId: planeId, projectId, payload: { path: file.path } }, reason);
+	}
+
+	/** Replays pending entries in order; concurrent calls share the same run. */
+	replay(): Promise<void> {
+		if (!this.replaying) {
+			this.replaying = this.runReplay().finally(() => {
+				this.replaying = null;
+			});
+		}
+		return this.replaying;
+	}
+
+	async retry(id: string): Promise<void> {
+		const entry = this.entries.find((e) => e.id === id);
+		if (!entry) return;
+		entry.status = "pending";
+		// changes that were failed because this create failed get another go with it
+		for (const dependent of this.dependentsOf(entry)) dependent.status = "pending";
+		await this.save();
+		await this.replay();
+	}
+
+	async retryAll(): Promise<void> {
+		for (const entry of this.entries) {
+			if (this.isActiveProfile(entry)) entry.status = "pending";
+		}
+		await this.save();
+		await this.replay();
+	}
+
+	/**
+	 * Lets the user settle a queued note push that conflicted with a remote change. The
+	 * entry only goes once a side was picked and pushed.
+	 */
+	async resolveConflict(id: string): Promise<void> {
+		const entry = this.entries.find((e) => e.id === id);
+		if (entry?.kind !== "note-push") return;
+		const file = this.plugin.app.vault.getAbstractFileByPath(entry.payload.path);
+		if (!(file instanceof TFile)) {
+			new Notice(`Note ${entry.payload.path} no longer exists`);
+			return;
+		}
+		try {
+			if (!(await this.plugin.noteSync.pushNoteNow(file, entry.targetId))) return;
+			this.entries = this.entries.filter((e) => e.id !== id);
+		} catch (error) {
+			entry.lastError = describeError(error);
+			new Notice(`Failed to push note: ${entry.lastError}`);
+		}
+		await this.save();
+	}
+
+	/** Drops a queued change. Records created only locally are removed from the cache too. */
+	async discard(id: string): Promise<void> {
+		const entry = this.entries.find((e) => e.id === id);
+		if (!entry) return;
+		this.entries = this.entries.filter((e) => e.id !== id);
+		const projectCache = this.plugin.ensureProjectCache(entry.projectId);
+		if (entry.op === "create" && entry.kind === "work-item") {
+			projectCache.workItems = projectCache.workItems
+				.filter((w) => w.id !== entry.targetId)
+				.map((w) => (w.parent === entry.targetId ? { ...w, parent: null } : w));
+			await this.forget(entry.targetId);
+		} else if (entry.op === "create" && entry.kind === "module") {
+			projectCache.modules = projectCache.modules.filter((m) => m.id !== entry.targetId);
+			projectCache.workItems = projectCache.workItems.map((w) =>
+				w.module === entry.targetId ? { ...w, module: null } : w,
+			);
+			await this.forget(entry.targetId);
+		} else if (entry.kind === "work-item") {
+			// undo the optimistic edit by asking Plane for the current version
+			try {
+				const fresh = await this.plugin.client.getWorkItem(entry.targetId, entry.projectId);
+				await this.plugin.storeWorkItem(fresh, entry.projectId);
+			} catch {
+				// offline; the next full sync will correct it
+			}
+		}
+		await this.save();
+	}
+
+	/** Drops every queued change for a record that no longer exists (deleted or archived). */
+	async forget(targetId: string): Promise<void> {
+		const count = this.entries.length;
+		this.entries = this.entries.filter((e) => e.targetId !== targetId);
+		let changed = this.entries.length !== count;
+		for (const entry of this.entries) {
+			// otherwise these would wait for the removed record's temporary id forever
+			if (entry.kind !== "work-item") continue;
+			if (entry.payload.module === targetId) {
+				entry.payload.module = null;
+				changed = true;
+			}
+			if (entry.payload.parent === targetId) {
+				entry.payload.parent = null;
+				changed = true;
+			}
+		}
+		if (changed) await this.save();
+	}
+
+	describe(entry: OutboxEntry): string {
+		switch (entry.kind) {
+			case "work-item": {
+				const name =
+					entry.payload.name ??
+					this.plugin.getProjectDataOrEmpty(entry.projectId).workItems.find((w) => w.id === entry.targetId)?.name ??
+					entry.targetId;
+				return `${entry.op === "create" ? "Create" : "Update"} work item "${name}"`;
+			}
+			case "module":
+				return `${entry.op === "create" ? "Create" : "Update"} module "${entry.payload.name}"`;
+			case "note-push":
+				return `Push note ${entry.payload.path}`;
+		}
+	}
+
+	private async push(
+		entry: Omit<OutboxEntry, "id" | "createdAt" | "attempts" | "status">,
+		reason?: unknown,
+	): Promise<void> {
+		this.entries.push({
+			...entry,
+			id: newId(),
+			profileId: this.plugin.connection.id,
+			createdAt: Date.now(),
+			attempts: 0,
+			status: "pending",
+		} as OutboxEntry);
+		await this.save();
+		if (reason !== undefined || !navigator.onLine) {
+			new Notice(`Plane unreachable; change saved and will sync later (${this.pendingCount} pending)`);
+		} else {
+			void this.replay();
+		}
+	}
+
+	private async runReplay(): Promise<void> {
+		if (!this.pendingCount || !navigator.onLine) return;
+		let replayed = 0;
+		for (const entry of [...this.entries]) {
+			if (entry.status !== "pending" || !this.isActiveProfile(entry) || this.dependsOnUnresolved(entry)) continue;
+			try {
+				await this.apply(entry);
+				this.entries = this.entries.filter((e) => e.id !== entry.id);
+				replayed++;
+				await this.save();
+			} catch (error) {
+				entry.attempts++;
+				entry.lastError = describeError(error);
+				entry.conflict = error instanceof NoteConflictError;
+				if (isTransientError(error)) {
+					// still offline or throttled: keep the order and try again later
+					await this.save();
+					break;
+				}
+				entry.status = "failed";
+				await this.save();
+			}
+		}
+		await this.failOrphans();
+		if (replayed) {
+			this.plugin.events.trigger("cache-updated");
+			new Notice(`Plane: replayed ${replayed} queued change${replayed === 1 ? "" : "s"}`);
+		}
+	}
+
+	/** An entry that points at a temporary id nobody resolved (its create failed) has to wait. */
+	private dependsOnUnresolved(entry: OutboxEntry): boolean {
+		if (entry.op === "update" && isTempId(entry.targetId)) return true;
+		return entry.kind === "work-item" && (isTempId(entry.payload.module) || isTempId(entry.payload.parent));
+	}
+
+	/** Queued changes on records created by `entry` (when it is a create). */
+	private dependentsOf(entry: OutboxEntry): OutboxEntry[] {
+		if (entry.op !== "create") return [];
+		const id = entry.targetId;
+		return this.entries.filter(
+			(e) =>
+				e !== entry &&
+				(e.targetId === id || (e.kind === "work-item" && (e.payload.module === id || e.payload.parent === id))),
+		);
+	}
+
+	/**
+	 * Pending entries waiting for a create that failed (or is gone) would never replay
+	 * and keep everything else queued behind them, so they are failed too.
+	 */
+	private async failOrphans(): Promise<void> {
+		const pendingCreates = new Set(
+			this.entries.filter((e) => e.op === "create" && e.status === "pending").map((e) => e.targetId),
+		);
+		let changed = false;
+		for (const entry of this.entries) {
+			if (entry.status !== "pending" || !this.dependsOnUnresolved(entry)) continue;
+			const waitsFor = [entry.op === "update" ? entry.targetId : null];
+			if (entry.kind === "work-item") waitsFor.push(entry.payload.module ?? null, entry.payload.parent ?? null);
+			if (waitsFor.every((id) => !isTempId(id) || pendingCreates.has(id ?? ""))) continue;
+			entry.status = "failed";
+			entry.lastError = "Waits for a record whose creation failed; retry or discard that change first";
+			changed = true;
+		}
+		if (changed) await this.save();
+	}
+
+	private async apply(entry: OutboxEntry): Promise<void> {
+		const { client } = this.plugin;
+		switch (entry.kind) {
+			case "work-item": {
+				if (entry.op === "update") {
+					const saved = await client.updateWorkItem(entry.targetId, entry.payload, entry.projectId);
+					await this.plugin.storeWorkItem(saved, entry.projectId);
+					return;
+				}
+				const saved = await client.createWorkItem(entry.payload, entry.projectId);
+				const stored = await this.resolveWorkItem(entry.projectId, entry.targetId, { ...saved, module: entry.payload.module ?? null });
+				if (entry.task) await this.plugin.taskSync.annotateCreated(entry.task.path, entry.task.line, stored);
+				return;
+			}
+			case "module": {
+				if (entry.op === "update") {
+					const saved = await client.updateModule(entry.targetId, entry.payload, entry.projectId);
+					await this.plugin.storeModule(saved, entry.projectId);
+					return;
+				}
+				const saved = await client.createModule(entry.payload, entry.projectId);
+				await this.resolveModule(entry.projectId, entry.targetId, saved);
+				return;
+			}
+			case "note-push": {
+				const file = this.plugin.app.vault.getAbstractFileByPath(entry.payload.path);
+				if (!(file instanceof TFile)) throw new Error(`Note ${entry.payload.path} no longer exists`);
+				// never prompt during a replay: it runs unattended and would hold up every sync
+				await this.plugin.noteSync.pushNoteNow(file, entry.targetId, false);
+				return;
+			}
+		}
+	}
+
+	private async resolveWorkItem(projectId: string, tempId: string, saved: PlaneWorkItem): Promise<PlaneWorkItem> {
+		const projectCache = this.plugin.ensureProjectCache(projectId);
+		projectCache.workItems = projectCache.workItems
+			.filter((w) => w.id !== tempId)
+			.map((w) => (w.parent === tempId ? { ...w, parent: saved.id } : w));
+		const stored = await this.plugin.storeWorkItem(saved, projectId);
+		for (const entry of this.entries) {
+			if (entry.targetId === tempId) entry.targetId = saved.id;
+			if (entry.kind === "work-item" && entry.payload.parent === tempId) entry.payload.parent = saved.id;
+		}
+		const note = this.plugin.noteSync.findNote(tempId);
+		if (note) {
+			await this.plugin.app.fileManager.processFrontMatter(note, (fm: { planeId?: string }) => {
+				fm.planeId = saved.id;
+			});
+		}
+		return stored;
+	}
+
+	private async resolveModule(projectId: string, tempId: string, saved: PlaneModule): Promise<void> {
+		const projectCache = this.plugin.ensureProjectCache(projectId);
+		projectCache.modules = projectCache.modules.filter((m) => m.id !== tempId);
+		projectCache.workItems = projectCache.workItems.map((w) => (w.module === tempId ? { ...w, module: saved.id } : w));
+		await this.plugin.storeModule(saved, projectId);
+		for (const entry of this.entries) {
+			if (entry.kind === "module" && entry.targetId === tempId) entry.targetId = saved.id;
+			if (entry.kind === "work-item" && entry.payload.module === tempId) entry.payload.module = saved.id;
+		}
+	}
+
+	private async save(): Promise<void> {
+		await this.plugin.savePersisted();
+		this.plugin.events.trigger("outbox-updated");
+	}
+}
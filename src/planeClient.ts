@@ -1,30 +1,116 @@
 import { Notice, requestUrl, type RequestUrlParam } from "obsidian";
-import type { PlaneSettings } from "./settings";
-import type { PlaneModule, PlaneWorkItem, PlaneListResponse, PlaneProject, PlaneState } from "./types";
-
-interface WorkItemPayload {
-	name: string;
-	description_html?: string | null;
-	state?: string | null;
-	priority?: string | null;
-	module?: string | null;
-	start_date?: string | null;
-	target_date?: string | null;
+import type { ConnectionProfile } from "./settings";
+import { PlaneNetworkError, apiErrorFor, describeError } from "./errors";
+import type {
+	AttachmentUploadTicket,
+	CyclePayload,
+	ModulePayload,
+	PlaneAttachment,
+	PlaneCycle,
+	PlaneLabel,
+	PlaneMember,
+	PlaneModule,
+	PlaneWorkItem,
+	PlaneComment,
+	PlaneListResponse,
+	PlaneProject,
+	PlaneRelations,
+	PlaneState,
+	RelationType,
+	WorkItemPayload,
+} from "./types";
+
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30_000;
+// Plane Cloud throttles per API key, so keep the sync fan-out polite
+const MAX_CONCURRENT_REQUESTS = 4;
+
+/** Caps how many requests are in flight; waiters are served first come, first served. */
+class RequestLimiter {
+	private active = 0;
+	private readonly waiting: (() => void)[] = [];
+
+	constructor(private readonly limit: number) {}
+
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		// a waiter is handed the slot of the request that finished, so `active` stays put
+		if (this.active >= this.limit) {
+			await new Promise<void>((resolve) => this.waiting.push(resolve));
+		} else {
+			this.active++;
+		}
+		try {
+			return await task();
+		} finally {
+			const next = this.waiting.shift();
+			if (next) next();
+			else this.active--;
+		}
+	}
 }
 
-interface ModulePayload {
-	name: string;
-	status?: string | null;
-	description?: string | null;
-	start_date?: string | null;
-	target_date?: string | null;
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => window.setTimeout(resolve, ms));
+}
+
+/** Retry-After is either delta-seconds or an HTTP date. */
+function parseRetryAfter(headers: Record<string, string>): number | undefined {
+	const key = Object.keys(headers).find((k) => k.toLowerCase() === "retry-after");
+	const value = key ? headers[key] : undefined;
+	if (!value) return undefined;
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** multipart/form-data body for the presigned upload form; the file part has to come last. */
+function multipartBody(
+	fields: Record<string, string>,
+	file: { name: string; type: string; data: ArrayBuffer },
+): { body: ArrayBuffer; contentType: string } {
+	const boundary = `----PlaneObsidian${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+	const encoder = new TextEncoder();
+	const parts: Uint8Array[] = [];
+	for (const [name, value] of Object.entries(fields)) {
+		parts.push(encoder.encode(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`));
+	}
+	parts.push(
+		encoder.encode(
+			`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${file.name.replace(/"/g, "")}"\r\n` +
+				`Content-Type: ${file.type}\r\n\r\n`,
+		),
+	);
+	parts.push(new Uint8Array(file.data));
+	parts.push(encoder.encode(`\r\n--${boundary}--\r\n`));
+
+	const body = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		body.set(part, offset);
+		offset += part.length;
+	}
+	return { body: body.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+/** Exponential backoff with full jitter. */
+function backoffDelay(attempt: number): number {
+	return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
 }
 
 export class PlaneClient {
-	private readonly getSettings: () => PlaneSettings;
+	private readonly getConnection: () => ConnectionProfile;
+	private readonly limiter: RequestLimiter;
+
+	constructor(connectionProvider: () => ConnectionProfile, limiter = new RequestLimiter(MAX_CONCURRENT_REQUESTS)) {
+		this.getConnection = connectionProvider;
+		this.limiter = limiter;
+	}
 
-	constructor(settingsProvider: () => PlaneSettings) {
-		this.getSettings = settingsProvider;
+	/** A client that keeps talking to `connection` after the active profile changes; it shares this client's request limit. */
+	pinnedTo(connection: ConnectionProfile): PlaneClient {
+		return new PlaneClient(() => connection, this.limiter);
 	}
 
 	async listProjects(): Promise<PlaneProject[]> {
@@ -33,28 +119,78 @@ export class PlaneClient {
 
 	async listModules(projectId?: string): Promise<PlaneModule[]> {
 		return await this.fetchAllPages<PlaneModule>(
-			`projects/${projectId ?? this.getSettings().defaultProjectId}/modules/`,
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/modules/`,
 		);
 	}
 
 	async listStates(projectId?: string): Promise<PlaneState[]> {
 		return await this.fetchAllPages<PlaneState>(
-			`projects/${projectId ?? this.getSettings().defaultProjectId}/states/`,
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/states/`,
 		);
 	}
 
-	async listWorkItems(projectId?: string, moduleId?: string): Promise<PlaneWorkItem[]> {
+	/** Lists work items, optionally only those changed after `updatedSince` (ISO timestamp). */
+	async listWorkItems(projectId?: string, updatedSince?: string): Promise<PlaneWorkItem[]> {
 		const query: Record<string, string> = { expand: "state,module,module_id" };
-		if (moduleId) query.module = moduleId;
+		if (updatedSince) query.updated_at__gt = updatedSince;
 		return await this.fetchAllPages<PlaneWorkItem>(
-			`projects/${projectId ?? this.getSettings().defaultProjectId}/work-items/`,
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/`,
 			query,
 		);
 	}
 
+	/** Ids of all live (not archived or deleted) work items; used to prune the cache after delta syncs. */
+	async listWorkItemIds(projectId?: string): Promise<string[]> {
+		const items = await this.fetchAllPages<{ id: string }>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/`,
+			{ fields: "id" },
+		);
+		return items.map((item) => item.id);
+	}
+
+	async deleteWorkItem(id: string, projectId?: string): Promise<void> {
+		await this.request(`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${id}/`, {
+			method: "DELETE",
+		});
+	}
+
+	/** Plane only archives items whose state is in the completed or cancelled group. */
+	async archiveWorkItem(id: string, projectId?: string): Promise<void> {
+		await this.request(`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${id}/archive/`, {
+			method: "POST",
+		});
+	}
+
+	async restoreWorkItem(id: string, projectId?: string): Promise<void> {
+		await this.request(`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${id}/archive/`, {
+			method: "DELETE",
+		});
+	}
+
+	async listArchivedWorkItems(projectId?: string): Promise<PlaneWorkItem[]> {
+		return await this.fetchAllPages<PlaneWorkItem>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/archived-work-items/`,
+		);
+	}
+
+	/** Ids of the work items in a module; only ids are requested to keep this cheap. */
+	async listModuleWorkItemIds(moduleId: string, projectId?: string): Promise<string[]> {
+		const items = await this.fetchAllPages<{ id: string }>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/modules/${moduleId}/module-issues/`,
+			{ fields: "id" },
+		);
+		return items.map((item) => item.id);
+	}
+
+	async getWorkItem(id: string, projectId?: string): Promise<PlaneWorkItem> {
+		return await this.request<PlaneWorkItem>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${id}/`,
+		);
+	}
+
 	async createWorkItem(payload: WorkItemPayload, projectId?: string): Promise<PlaneWorkItem> {
 		const json = await this.request<PlaneWorkItem>(
-			`projects/${projectId ?? this.getSettings().defaultProjectId}/work-items/`,
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/`,
 			{ method: "POST", body: payload },
 		);
 		return json;
@@ -62,15 +198,129 @@ export class PlaneClient {
 
 	async updateWorkItem(id: string, payload: Partial<WorkItemPayload>, projectId?: string): Promise<PlaneWorkItem> {
 		const json = await this.request<PlaneWorkItem>(
-			`projects/${projectId ?? this.getSettings().defaultProjectId}/work-items/${id}/`,
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${id}/`,
 			{ method: "PATCH", body: payload },
 		);
 		return json;
 	}
 
+	async listComments(workItemId: string, projectId?: string): Promise<PlaneComment[]> {
+		return await this.fetchAllPages<PlaneComment>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${workItemId}/comments/`,
+			{ expand: "actor" },
+		);
+	}
+
+	async createComment(workItemId: string, commentHtml: string, projectId?: string): Promise<PlaneComment> {
+		return await this.request<PlaneComment>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${workItemId}/comments/`,
+			{ method: "POST", body: { comment_html: commentHtml } },
+		);
+	}
+
+	async listRelations(workItemId: string, projectId?: string): Promise<PlaneRelations> {
+		const json = await this.request<Partial<PlaneRelations>>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${workItemId}/relations/`,
+		);
+		return {
+			blocking: json?.blocking ?? [],
+			blocked_by: json?.blocked_by ?? [],
+			duplicate: json?.duplicate ?? [],
+			relates_to: json?.relates_to ?? [],
+		};
+	}
+
+	async createRelation(
+		workItemId: string,
+		relationType: RelationType,
+		relatedIds: string[],
+		projectId?: string,
+	): Promise<void> {
+		await this.request(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${workItemId}/relations/`,
+			{ method: "POST", body: { relation_type: relationType, issues: relatedIds } },
+		);
+	}
+
+	async removeRelation(workItemId: string, relatedId: string, projectId?: string): Promise<void> {
+		await this.request(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${workItemId}/relations/remove/`,
+			{ method: "POST", body: { related_issue: relatedId } },
+		);
+	}
+
+	async listAttachments(workItemId: string, projectId?: string): Promise<PlaneAttachment[]> {
+		const attachments = await this.fetchAllPages<PlaneAttachment>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${workItemId}/attachments/`,
+		);
+		// abandoned uploads stay listed with is_uploaded false
+		return attachments.filter((a) => a.is_uploaded !== false);
+	}
+
+	/**
+	 * Uploads a file in Plane's three steps: ask for a presigned form, post the file to
+	 * storage, then mark the attachment as uploaded.
+	 */
+	async uploadAttachment(
+		workItemId: string,
+		file: { name: string; type: string; data: ArrayBuffer },
+		projectId?: string,
+	): Promise<PlaneAttachment> {
+		const base = `projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${workItemId}/attachments/`;
+		const ticket = await this.request<AttachmentUploadTicket>(base, {
+			method: "POST",
+			body: { name: file.name, type: file.type, size: file.data.byteLength },
+		});
+
+		const { body, contentType } = multipartBody(ticket.upload_data.fields, file);
+		let response;
+		try {
+			response = await this.limiter.run(() =>
+				requestUrl({
+					url: ticket.upload_data.url,
+					method: "POST",
+					contentType,
+					body,
+					throw: false,
+				}),
+			);
+		} catch (error) {
+			throw new PlaneNetworkError(`Attachment upload to ${ticket.upload_data.url} unreachable: ${String(error)}`, error);
+		}
+		if (response.status < 200 || response.status >= 300) {
+			throw apiErrorFor(`Attachment upload failed (${response.status})`, response.status, response.text);
+		}
+
+		await this.request(`${base}${ticket.asset_id}/`, { method: "PATCH", body: { is_uploaded: true } });
+		return { ...ticket.attachment, id: ticket.asset_id, is_uploaded: true };
+	}
+
+	async downloadAttachment(workItemId: string, attachmentId: string, projectId?: string): Promise<ArrayBuffer> {
+		return await this.request<ArrayBuffer>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/work-items/${workItemId}/attachments/${attachmentId}/`,
+			{ responseType: "arrayBuffer" },
+		);
+	}
+
+	/** URL Plane's editor uses to show an attachment inside a description. */
+	attachmentUrl(workItemId: string, attachmentId: string, projectId?: string): string {
+		const connection = this.getConnection();
+		const project = projectId ?? connection.defaultProjectId;
+		const host = connection.apiBaseUrl.replace(/\/$/, "");
+		return `${host}/api/assets/v2/workspaces/${connection.workspaceSlug}/projects/${project}/issues/${workItemId}/attachments/${attachmentId}/`;
+	}
+
+	/** Link to the work item in Plane's web app; Plane Cloud serves the API and the app from different hosts. */
+	workItemUrl(workItemId: string, projectId?: string): string {
+		const connection = this.getConnection();
+		const project = projectId ?? connection.defaultProjectId;
+		const host = connection.apiBaseUrl.replace(/\/$/, "").replace("://api.plane.so", "://app.plane.so");
+		return `${host}/${connection.workspaceSlug}/projects/${project}/issues/${workItemId}`;
+	}
+
 	async createModule(payload: ModulePayload, projectId?: string): Promise<PlaneModule> {
 		const json = await this.request<PlaneModule>(
-			`projects/${projectId ?? this.getSettings().defaultProjectId}/modules/`,
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/modules/`,
 			{ method: "POST", body: payload },
 		);
 		return json;
@@ -78,63 +328,191 @@ export class PlaneClient {
 
 	async updateModule(id: string, payload: Partial<ModulePayload>, projectId?: string): Promise<PlaneModule> {
 		const json = await this.request<PlaneModule>(
-			`projects/${projectId ?? this.getSettings().defaultProjectId}/modules/${id}/`,
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/modules/${id}/`,
 			{ method: "PATCH", body: payload },
 		);
 		return json;
 	}
 
+	async deleteModule(id: string, projectId?: string): Promise<void> {
+		await this.request(`projects/${projectId ?? this.getConnection().defaultProjectId}/modules/${id}/`, {
+			method: "DELETE",
+		});
+	}
+
+	async archiveModule(id: string, projectId?: string): Promise<void> {
+		await this.request(`projects/${projectId ?? this.getConnection().defaultProjectId}/modules/${id}/archive/`, {
+			method: "POST",
+		});
+	}
+
+	async restoreModule(id: string, projectId?: string): Promise<void> {
+		await this.request(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/archived-modules/${id}/unarchive/`,
+			{ method: "DELETE" },
+		);
+	}
+
+	async listArchivedModules(projectId?: string): Promise<PlaneModule[]> {
+		return await this.fetchAllPages<PlaneModule>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/archived-modules/`,
+		);
+	}
+
+	async listLabels(projectId?: string): Promise<PlaneLabel[]> {
+		return await this.fetchAllPages<PlaneLabel>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/labels/`,
+		);
+	}
+
+	async createLabel(payload: { name: string; color?: string }, projectId?: string): Promise<PlaneLabel> {
+		return await this.request<PlaneLabel>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/labels/`,
+			{ method: "POST", body: payload },
+		);
+	}
+
+	async listMembers(projectId?: string): Promise<PlaneMember[]> {
+		return await this.fetchAllPages<PlaneMember>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/members/`,
+		);
+	}
+
+	/** The user the API token belongs to. */
+	async getMe(): Promise<PlaneMember> {
+		return await this.request<PlaneMember>("users/me/", { workspaceScoped: false });
+	}
+
+	async listCycles(projectId?: string): Promise<PlaneCycle[]> {
+		return await this.fetchAllPages<PlaneCycle>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/cycles/`,
+		);
+	}
+
+	async createCycle(payload: CyclePayload, projectId?: string): Promise<PlaneCycle> {
+		const project = projectId ?? this.getConnection().defaultProjectId;
+		return await this.request<PlaneCycle>(`projects/${project}/cycles/`, {
+			method: "POST",
+			body: { ...payload, project_id: project },
+		});
+	}
+
+	async updateCycle(id: string, payload: Partial<CyclePayload>, projectId?: string): Promise<PlaneCycle> {
+		return await this.request<PlaneCycle>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/cycles/${id}/`,
+			{ method: "PATCH", body: payload },
+		);
+	}
+
+	/** Ids of the work items in a cycle; only ids are requested to keep this cheap. */
+	async listCycleWorkItemIds(cycleId: string, projectId?: string): Promise<string[]> {
+		const items = await this.fetchAllPages<{ id: string }>(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/cycles/${cycleId}/cycle-issues/`,
+			{ fields: "id" },
+		);
+		return items.map((item) => item.id);
+	}
+
+	async addWorkItemsToCycle(cycleId: string, workItemIds: string[], projectId?: string): Promise<void> {
+		await this.request(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/cycles/${cycleId}/cycle-issues/`,
+			{ method: "POST", body: { issues: workItemIds } },
+		);
+	}
+
+	async removeWorkItemFromCycle(cycleId: string, workItemId: string, projectId?: string): Promise<void> {
+		await this.request(
+			`projects/${projectId ?? this.getConnection().defaultProjectId}/cycles/${cycleId}/cycle-issues/${workItemId}/`,
+			{ method: "DELETE" },
+		);
+	}
+
 	async ping(): Promise<boolean> {
 		try {
 			await this.request(`projects/`);
 			return true;
 		} catch (error) {
-			new Notice(`Plane connection failed: ${String(error)}`);
+			new Notice(`Plane connection failed: ${describeError(error)}`);
 			return false;
 		}
 	}
 
+	/**
+	 * Sends one API call. 429s and 5xx responses are retried with backoff (honouring
+	 * Retry-After); anything else non-2xx is thrown as a typed error from ./errors.
+	 */
 	private async request<T>(
 		path: string,
-		options: { method?: "GET" | "POST" | "PATCH"; body?: unknown; query?: Record<string, string> } = {},
+		options: {
+			method?: "GET" | "POST" | "PATCH" | "DELETE";
+			body?: unknown;
+			query?: Record<string, string>;
+			/** false for the few endpoints that live outside /workspaces/{slug}/ */
+			workspaceScoped?: boolean;
+			responseType?: "json" | "arrayBuffer";
+		} = {},
 	): Promise<T> {
-		const settings = this.getSettings();
-		if (!settings.apiKey || !settings.workspaceSlug || !settings.apiBaseUrl) {
+		const connection = this.getConnection();
+		if (!connection.apiKey || !connection.workspaceSlug || !connection.apiBaseUrl) {
 			throw new Error("Plane settings are incomplete.");
 		}
 		const method = options.method ?? "GET";
-		const url = this.buildUrl(path, settings, options.query);
+		const url = this.buildUrl(path, connection, options.query, options.workspaceScoped ?? true);
 		const params: RequestUrlParam = {
 			url,
 			method,
 			headers: {
 				"Content-Type": "application/json",
-				"x-api-key": settings.apiKey,
+				"x-api-key": connection.apiKey,
 			},
 			throw: false,
 			body: options.body ? JSON.stringify(options.body) : undefined,
 		};
 
-		const response = await requestUrl(params);
-		if (response.status >= 200 && response.status < 300) {
-			return response.json as T;
-		}
-		let message = `Plane API ${method} ${url} failed (${response.status})`;
-		if (response.text) {
-			message += `: ${response.text.slice(0, 200)}`;
+		for (let attempt = 0; ; attempt++) {
+			let response;
+			try {
+				response = await this.limiter.run(() => requestUrl(params));
+			} catch (error) {
+				throw new PlaneNetworkError(`Plane API ${method} ${url} unreachable: ${String(error)}`, error);
+			}
+			if (response.status >= 200 && response.status < 300) {
+				// DELETE and some POSTs answer 204 without a body
+				if (options.responseType === "arrayBuffer") return response.arrayBuffer as T;
+				return (response.status === 204 || !response.text ? undefined : response.json) as T;
+			}
+
+			const retryAfter = parseRetryAfter(response.headers ?? {});
+			// a 5xx on POST may already have created the record, so only 429s are safe to resend there
+			const retryable = response.status === 429 || (response.status >= 500 && method !== "POST");
+			if (retryable && attempt < MAX_RETRIES) {
+				await sleep(Math.min(MAX_DELAY_MS, retryAfter ?? backoffDelay(attempt)));
+				continue;
+			}
+
+			let message = `Plane API ${method} ${url} failed (${response.status})`;
+			if (response.text) {
+				message += `: ${response.text.slice(0, 200)}`;
+			}
+			throw apiErrorFor(message, response.status, response.text, retryAfter);
 		}
-		throw new Error(message);
 	}
 
-	private buildUrl(path: string, settings: PlaneSettings, query?: Record<string, string>): string {
-		const trimmed = settings.apiBaseUrl.replace(/\/$/, "");
+	private buildUrl(
+		path: string,
+		connection: ConnectionProfile,
+		query?: Record<string, string>,
+		workspaceScoped = true,
+	): string {
+		const trimmed = connection.apiBaseUrl.replace(/\/$/, "");
 		const queryString = query
 			? `?${Object.entries(query)
 					.filter(([, value]) => Boolean(value))
 					.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
 					.join("&")}`
 			: "";
-		return `${trimmed}/api/v1/workspaces/${settings.workspaceSlug}/${path}${queryString}`;
+		const scope = workspaceScoped ? `workspaces/${connection.workspaceSlug}/` : "";
+		return `${trimmed}/api/v1/${scope}${path}${queryString}`;
 	}
 
 	private async fetchAllPages<T>(
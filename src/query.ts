@@ -0,0 +1,159 @@
+import type { PlaneMember, PlaneWorkItem, ProjectCache } from "./types";
+
+export type QuerySort = "manual" | "priority" | "state" | "name" | "updated";
+export type QueryView = "table" | "list";
+
+/** A parsed `plane` code block. Filter values match names or ids, case-insensitively; several values are OR-ed. */
+export interface PlaneQuery {
+	/** Project id, identifier or name; the selected project when absent */
+	project?: string;
+	module: string[];
+	/** State names or state groups (backlog, unstarted, started, completed, cancelled) */
+	state: string[];
+	priority: string[];
+	label: string[];
+	/** Member names, emails or ids; `me` is the token's user */
+	assignee: string[];
+	sort: QuerySort;
+	descending: boolean;
+	limit?: number;
+	view: QueryView;
+}
+
+export interface ParsedQuery {
+	query: PlaneQuery;
+	errors: string[];
+}
+
+const SORTS: QuerySort[] = ["manual", "priority", "state", "name", "updated"];
+const VIEWS: QueryView[] = ["table", "list"];
+const LIST_KEYS = ["module", "state", "priority", "label", "assignee"] as const;
+const PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3, none: 4 };
+export const PRIORITIES = Object.keys(PRIORITY_RANK);
+const GROUP_RANK: Record<string, number> = { backlog: 0, unstarted: 1, started: 2, completed: 3, cancelled: 4 };
+
+/** Sort position of a priority, most urgent first; unknown values go last. */
+export function priorityRank(priority: string | null | undefined): number {
+	return PRIORITY_RANK[priority || "none"] ?? PRIORITIES.length;
+}
+
+/**
+ * Parses `key: value` lines; blank lines and lines starting with `#` are skipped.
+ * Unknown keys and bad values are reported but don't stop the rest of the query.
+ */
+export function parseQuery(source: string): ParsedQuery {
+	const query: PlaneQuery = {
+		module: [],
+		state: [],
+		priority: [],
+		label: [],
+		assignee: [],
+		sort: "manual",
+		descending: false,
+		view: "table",
+	};
+	const errors: string[] = [];
+	for (const raw of source.split("\n")) {
+		const line = raw.trim();
+		if (!line || line.startsWith("#")) continue;
+		const colon = line.indexOf(":");
+		if (colon < 0) {
+			errors.push(`Expected "key: value", got "${line}"`);
+			continue;
+		}
+		const key = line.slice(0, colon).trim().toLowerCase();
+		const value = line.slice(colon + 1).trim();
+		if (!value) continue;
+		if ((LIST_KEYS as readonly string[]).includes(key)) {
+			const values = value
+				.split(",")
+				.map((v) => v.trim())
+				.filter(Boolean);
+			query[key as (typeof LIST_KEYS)[number]].push(...values);
+		} else if (key === "project") {
+			query.project = value;
+		} else if (key === "sort") {
+			const [field = "", direction] = value.toLowerCase().split(/\s+/);
+			if (SORTS.includes(field as QuerySort)) query.sort = field as QuerySort;
+			else errors.push(`Unknown sort "${field}"; use ${SORTS.join(", ")}`);
+			query.descending = direction === "desc";
+		} else if (key === "limit") {
+			const limit = Number(value);
+			if (Number.isInteger(limit) && limit > 0) query.limit = limit;
+			else errors.push(`Limit must be a positive whole number, got "${value}"`);
+		} else if (key === "view") {
+			if (VIEWS.includes(value.toLowerCase() as QueryView)) query.view = value.toLowerCase() as QueryView;
+			else errors.push(`Unknown view "${value}"; use ${VIEWS.join(" or ")}`);
+		} else {
+			errors.push(`Unknown key "${key}"`);
+		}
+	}
+	return { query, errors };
+}
+
+function matches(wanted: string[], ...candidates: (string | null | undefined)[]): boolean {
+	return candidates.some((c) => !!c && wanted.includes(c.toLowerCase()));
+}
+
+function memberMatches(wanted: string[], member: PlaneMember | undefined, id: string, meId?: string): boolean {
+	if (meId === id && wanted.includes("me")) return true;
+	return matches(wanted, id, member?.display_name, member?.email, [member?.first_name, member?.last_name].filter(Boolean).join(" "));
+}
+
+/** Filters, sorts and limits the project's work items according to `query`. */
+export function runQuery(query: PlaneQuery, data: ProjectCache, meId?: string): PlaneWorkItem[] {
+	const lower = (values: string[]) => values.map((v) => v.toLowerCase());
+	const modules = lower(query.module);
+	const states = lower(query.state);
+	const priorities = lower(query.priority);
+	const labels = lower(query.label);
+	const assignees = lower(query.assignee);
+	const stateOf = (item: PlaneWorkItem) => data.states.find((s) => s.id === (item.state_id ?? item.state));
+
+	const items = data.workItems.filter((item) => {
+		if (modules.length) {
+			const moduleId = item.module ?? item.module_id ?? "";
+			const mod = data.modules.find((m) => m.id === moduleId);
+			if (!matches(modules, moduleId, mod?.name)) return false;
+		}
+		if (states.length) {
+			const state = stateOf(item);
+			if (!matches(states, state?.id, state?.name, state?.group)) return false;
+		}
+		if (priorities.length && !matches(priorities, item.priority || "none")) return false;
+		if (labels.length) {
+			const hit = (item.labels ?? []).some((id) =>
+				matches(labels, id, data.labels.find((l) => l.id === id)?.name),
+			);
+			if (!hit) return false;
+		}
+		if (assignees.length) {
+			const hit = (item.assignees ?? []).some((id) =>
+				memberMatches(assignees, data.members.find((m) => m.id === id), id, meId),
+			);
+			if (!hit) return false;
+		}
+		return true;
+	});
+
+	const compare = (a: PlaneWorkItem, b: PlaneWorkItem): number => {
+		switch (query.sort) {
+			case "priority":
+				return priorityRank(a.priority) - priorityRank(b.priority);
+			case "state": {
+				const sa = stateOf(a);
+				const sb = stateOf(b);
+				const group = (GROUP_RANK[sa?.group ?? ""] ?? 5) - (GROUP_RANK[sb?.group ?? ""] ?? 5);
+				return group || (sa?.sequence ?? 0) - (sb?.sequence ?? 0);
+			}
+			case "name":
+				return a.name.localeCompare(b.name);
+			case "updated":
+				return (Date.parse(a.updated_at ?? "") || 0) - (Date.parse(b.updated_at ?? "") || 0);
+			default:
+				return (a.sort_order ?? 0) - (b.sort_order ?? 0);
+		}
+	};
+	items.sort((a, b) => (query.descending ? compare(b, a) : compare(a, b)));
+	return query.limit ? items.slice(0, query.limit) : items;
+}
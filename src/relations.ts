@@ -0,0 +1,22 @@
+import type { PlaneState, PlaneWorkItem, RelationType } from "./types";
+
+export const RELATION_LABELS: Record<RelationType, string> = {
+	blocking: "Blocks",
+	blocked_by: "Blocked by",
+	duplicate: "Duplicate of",
+	relates_to: "Relates to",
+};
+
+export const RELATION_TYPES = Object.keys(RELATION_LABELS) as RelationType[];
+
+/** Blockers of `item` that are not completed or cancelled yet. */
+export function openBlockers(item: PlaneWorkItem, items: PlaneWorkItem[], states: PlaneState[]): PlaneWorkItem[] {
+	const ids = item.relations?.blocked_by ?? [];
+	if (!ids.length) return [];
+	const groupOf = new Map(states.map((s) => [s.id, s.group]));
+	return items.filter((other) => {
+		if (!ids.includes(other.id)) return false;
+		const group = groupOf.get(other.state_id ?? other.state ?? "");
+		return group !== "completed" && group !== "cancelled";
+	});
+}
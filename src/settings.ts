@@ -1,26 +1,71 @@
 import { App, ButtonComponent, Notice, PluginSettingTab, Setting } from "obsidian";
 import type PlaneProjectPlugin from "./main";
+import { DEFAULT_NOTE_TEMPLATE, TEMPLATE_FIELDS } from "./template";
 
-export interface PlaneSettings {
+/** One Plane instance + workspace + token. Caches, outbox entries and notes are tied to a profile. */
+export interface ConnectionProfile {
+	id: string;
+	name: string;
 	apiBaseUrl: string;
 	apiKey: string;
 	workspaceSlug: string;
 	defaultProjectId: string;
 	defaultModuleId?: string;
+	/** Background sync interval in minutes per project id; missing or 0 means off */
+	syncIntervals?: Record<string, number>;
+}
+
+export interface PlaneSettings {
+	profiles: ConnectionProfile[];
+	activeProfileId: string;
 	syncOnLoad: boolean;
 	noteFolder: string;
+	/** Subfolders of `noteFolder` per note, with `{project}` and `{module}` placeholders; empty keeps notes flat */
+	noteLayout: string;
+	/** Name of new notes with `{{field}}` placeholders; empty uses the lowercased identifier */
+	noteFilename: string;
+	/** Vault path of a note template; wins over `noteTemplate` when set */
+	noteTemplateFile: string;
+	noteTemplate: string;
+	archiveFolder: string;
+	mirrorComments: boolean;
+	syncRelations: boolean;
 }
 
-export const DEFAULT_SETTINGS: PlaneSettings = {
+export const DEFAULT_PROFILE: ConnectionProfile = {
+	id: "default",
+	name: "Default",
 	apiBaseUrl: "https://api.plane.so",
 	apiKey: "",
 	workspaceSlug: "",
 	defaultProjectId: "",
 	defaultModuleId: "",
+};
+
+export const DEFAULT_SETTINGS: PlaneSettings = {
+	profiles: [DEFAULT_PROFILE],
+	activeProfileId: DEFAULT_PROFILE.id,
 	syncOnLoad: true,
 	noteFolder: "Plane",
+	noteLayout: "",
+	noteFilename: "",
+	noteTemplateFile: "",
+	noteTemplate: "",
+	archiveFolder: "Plane/Archive",
+	mirrorComments: false,
+	syncRelations: false,
 };
 
+const SYNC_INTERVALS = [0, 5, 10, 15, 30, 60];
+
+/** Readable, stable id for a new profile; it ends up in note frontmatter. */
+export function newProfileId(name: string, taken: string[]): string {
+	const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "profile";
+	let id = base;
+	for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+	return id;
+}
+
 export class PlaneSettingTab extends PluginSettingTab {
 	plugin: PlaneProjectPlugin;
 
@@ -33,72 +78,111 @@ export class PlaneSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 		containerEl.empty();
 
-			new Setting(containerEl).setName("Plane connection").setHeading();
+		new Setting(containerEl).setName("Plane connection").setHeading();
 
-			new Setting(containerEl)
-				.setName("API base URL")
-				.setDesc("Your plane instance base URL. Keep the default for cloud (https://api.plane.so).")
-				.addText((text) =>
-					text
-						.setPlaceholder("https://api.plane.so")
-						.setValue(this.plugin.settings.apiBaseUrl)
-						.onChange(async (value) => {
-							this.plugin.settings.apiBaseUrl = value.trim() || DEFAULT_SETTINGS.apiBaseUrl;
-							await this.plugin.savePersisted();
-						}),
-				);
+		new Setting(containerEl)
+			.setName("Connection profile")
+			.setDesc("Each profile has its own instance, workspace, token and cache. The hub and board can switch between them.")
+			.addDropdown((dropdown) => {
+				for (const profile of this.plugin.settings.profiles) dropdown.addOption(profile.id, profile.name);
+				dropdown.setValue(this.plugin.connection.id).onChange(async (value) => {
+					await this.plugin.switchProfile(value, false);
+					this.display();
+				});
+			})
+			.addButton((button: ButtonComponent) =>
+				button.setButtonText("Add profile").onClick(async () => {
+					const { profiles } = this.plugin.settings;
+					const name = `Profile ${profiles.length + 1}`;
+					profiles.push({ ...DEFAULT_PROFILE, id: newProfileId(name, profiles.map((p) => p.id)), name });
+					await this.plugin.switchProfile(profiles[profiles.length - 1]!.id, false);
+					this.display();
+				}),
+			)
+			.addButton((button: ButtonComponent) =>
+				button
+					.setButtonText("Remove")
+					.setWarning()
+					.setDisabled(this.plugin.settings.profiles.length < 2)
+					.onClick(async () => {
+						await this.plugin.removeProfile(this.plugin.connection.id);
+						this.display();
+					}),
+			);
 
-			new Setting(containerEl)
-				.setName("Workspace slug")
-				.setDesc("Find this in plane → workspace settings.")
-				.addText((text) =>
-					text
-						.setPlaceholder("My workspace")
-						.setValue(this.plugin.settings.workspaceSlug)
-						.onChange(async (value) => {
-							this.plugin.settings.workspaceSlug = value.trim();
-							await this.plugin.savePersisted();
-						}),
-				);
+		const profile = this.plugin.connection;
 
-			new Setting(containerEl)
-				.setName("Default project ID")
-				.setDesc("UUID of the project to open first; you can switch projects inside the hub.")
-				.addText((text) =>
-					text
-						.setPlaceholder("Example project identifier")
-						.setValue(this.plugin.settings.defaultProjectId)
-						.onChange(async (value) => {
-							this.plugin.settings.defaultProjectId = value.trim();
-							await this.plugin.savePersisted();
-						}),
-				);
+		new Setting(containerEl).setName("Profile name").addText((text) =>
+			text.setValue(profile.name).onChange(async (value) => {
+				profile.name = value.trim() || profile.id;
+				await this.plugin.savePersisted();
+			}),
+		);
 
-			new Setting(containerEl)
-				.setName("Default module ID")
-				.setDesc("Optional module UUID to pre-filter items.")
-				.addText((text) =>
-					text
-						.setPlaceholder("Optional module ID")
-						.setValue(this.plugin.settings.defaultModuleId ?? "")
-						.onChange(async (value) => {
-							this.plugin.settings.defaultModuleId = value.trim();
-							await this.plugin.savePersisted();
-						}),
-				);
+		new Setting(containerEl)
+			.setName("API base URL")
+			.setDesc("Your plane instance base URL. Keep the default for cloud (https://api.plane.so).")
+			.addText((text) =>
+				text
+					.setPlaceholder("https://api.plane.so")
+					.setValue(profile.apiBaseUrl)
+					.onChange(async (value) => {
+						profile.apiBaseUrl = value.trim() || DEFAULT_PROFILE.apiBaseUrl;
+						await this.plugin.savePersisted();
+					}),
+			);
 
-			new Setting(containerEl)
-				.setName("API token")
-				.setDesc("Create a personal API token in plane → profile → developer settings.")
-				.addText((text) =>
-					text
-						.setPlaceholder("Plane API token")
-						.setValue(this.plugin.settings.apiKey)
-						.onChange(async (value) => {
-							this.plugin.settings.apiKey = value.trim();
-							await this.plugin.savePersisted();
-						}),
-				);
+		new Setting(containerEl)
+			.setName("Workspace slug")
+			.setDesc("Find this in plane → workspace settings.")
+			.addText((text) => {
+				text.setPlaceholder("My workspace").setValue(profile.workspaceSlug);
+				// applied when done typing: a new slug swaps the cache and reloads the project list
+				text.inputEl.addEventListener("blur", () => {
+					void this.plugin.setWorkspaceSlug(text.getValue().trim());
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Default project ID")
+			.setDesc("UUID of the project to open first; you can switch projects inside the hub.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Example project identifier")
+					.setValue(profile.defaultProjectId)
+					.onChange(async (value) => {
+						profile.defaultProjectId = value.trim();
+						await this.plugin.savePersisted();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Default module ID")
+			.setDesc("Optional module UUID to pre-filter items.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Optional module ID")
+					.setValue(profile.defaultModuleId ?? "")
+					.onChange(async (value) => {
+						profile.defaultModuleId = value.trim();
+						await this.plugin.savePersisted();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("API token")
+			.setDesc("Create a personal API token in plane → profile → developer settings.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Plane API token")
+					.setValue(profile.apiKey)
+					.onChange(async (value) => {
+						profile.apiKey = value.trim();
+						// a different token may belong to a different user
+						this.plugin.cache.me = undefined;
+						await this.plugin.savePersisted();
+					}),
+			);
 
 			new Setting(containerEl)
 				.setName("Sync on load")
@@ -123,6 +207,100 @@ export class PlaneSettingTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl)
+			.setName("Note folder layout")
+			.setDesc(
+				"Subfolders of the note folder, e.g. {project}/{module}. Notes move when their module changes. Leave empty to keep all notes in the note folder.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("{project}/{module}")
+					.setValue(this.plugin.settings.noteLayout)
+					.onChange(async (value) => {
+						this.plugin.settings.noteLayout = value.trim();
+						await this.plugin.savePersisted();
+					}),
+			);
+
+		const placeholders = TEMPLATE_FIELDS.map((field) => `{{${field}}}`).join(", ");
+
+		new Setting(containerEl)
+			.setName("Note file name")
+			.setDesc("Pattern for the names of new notes, e.g. {{identifier}} {{name}}. Leave empty to use the lowercased identifier. Existing notes keep their names.")
+			.addText((text) =>
+				text
+					.setPlaceholder("{{identifier}} {{name}}")
+					.setValue(this.plugin.settings.noteFilename)
+					.onChange(async (value) => {
+						this.plugin.settings.noteFilename = value;
+						await this.plugin.savePersisted();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Note template file")
+			.setDesc("Vault path of a note to use as the template for new notes. Overrides the inline template below.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Templates/plane work item.md")
+					.setValue(this.plugin.settings.noteTemplateFile)
+					.onChange(async (value) => {
+						this.plugin.settings.noteTemplateFile = value.trim();
+						await this.plugin.savePersisted();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Note template")
+			.setDesc(
+				`Content of new notes. Available placeholders: ${placeholders}. Frontmatter in the template is kept next to the plugin's own properties. Only the description syncs with plane; the rest of the template stays in the note. Leave empty for a title and the description.`,
+			)
+			.addTextArea((text) => {
+				text
+					.setPlaceholder(DEFAULT_NOTE_TEMPLATE)
+					.setValue(this.plugin.settings.noteTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.noteTemplate = value;
+						await this.plugin.savePersisted();
+					});
+				text.inputEl.rows = 6;
+			});
+
+		new Setting(containerEl)
+			.setName("Archive folder")
+			.setDesc("Where notes go when their work item is archived or deleted and you choose to archive the note.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Archive")
+					.setValue(this.plugin.settings.archiveFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.archiveFolder = value.trim() || DEFAULT_SETTINGS.archiveFolder;
+						await this.plugin.savePersisted();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Mirror comments into notes")
+			.setDesc("On sync, write the work item's comments into a comments section at the end of its linked note.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.mirrorComments).onChange(async (value) => {
+					this.plugin.settings.mirrorComments = value;
+					await this.plugin.savePersisted();
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Sync relations")
+			.setDesc(
+				"Fetch blocking, duplicate and related links on delta syncs. Costs one extra request per changed work item; the work item form always loads them.",
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.syncRelations).onChange(async (value) => {
+					this.plugin.settings.syncRelations = value;
+					await this.plugin.savePersisted();
+				}),
+			);
+
 		new Setting(containerEl)
 			.setName("Test connection")
 			.setDesc("Checks credentials and workspace/project access.")
@@ -151,5 +329,24 @@ export class PlaneSettingTab extends PluginSettingTab {
 						button.setDisabled(false).setButtonText("Sync now");
 					}),
 			);
+
+		new Setting(containerEl)
+			.setName("Background sync")
+			.setDesc("Sync projects on a timer while Obsidian is in the foreground. Intervals are kept per connection profile.")
+			.setHeading();
+		if (!this.plugin.availableProjects.length) {
+			new Setting(containerEl).setDesc("Test the connection or sync once to list the workspace's projects here.");
+		}
+		for (const project of this.plugin.availableProjects) {
+			new Setting(containerEl).setName(this.plugin.projectLabel(project.id)).addDropdown((dropdown) => {
+				for (const minutes of SYNC_INTERVALS) {
+					dropdown.addOption(String(minutes), minutes ? `Every ${minutes} minutes` : "Off");
+				}
+				dropdown.setValue(String(profile.syncIntervals?.[project.id] ?? 0)).onChange(async (value) => {
+					profile.syncIntervals = { ...profile.syncIntervals, [project.id]: Number(value) };
+					await this.plugin.savePersisted();
+				});
+			});
+		}
 	}
 }
@@ -0,0 +1,212 @@
+import { Editor, Notice, TFile } from "obsidian";
+import type { CachedMetadata } from "obsidian";
+import type PlaneProjectPlugin from "./main";
+import { describeError } from "./errors";
+import { isTempId } from "./outbox";
+import { annotateTask, parseTasks, setTaskChecked } from "./tasks";
+import type { PlaneState, PlaneWorkItem } from "./types";
+
+// cheap pre-check before parsing a note's tasks
+const ANNOTATION_RE = /\([A-Z][A-Z0-9]*-\d+\)/;
+
+/**
+ * Turns `- [ ]` tasks into work items and keeps the checkboxes of annotated tasks
+ * (`- [ ] do X (PROJ-42)`) in step with the work item's completed state.
+ */
+export class TaskSync {
+	/** Checkbox state per work item identifier as last seen per note path, to spot ticks */
+	private readonly snapshots = new Map<string, Map<string, boolean>>();
+
+	constructor(private readonly plugin: PlaneProjectPlugin) {}
+
+	private get app() {
+		return this.plugin.app;
+	}
+
+	/**
+	 * Creates work items for the unchecked, not yet annotated tasks in the selection (or the
+	 * whole note). Tasks whose item is queued offline are annotated once it reaches Plane.
+	 */
+	async convertTasks(editor: Editor, file: TFile | null): Promise<void> {
+		const { plugin } = this;
+		const projectId = plugin.cache.selectedProjectId || plugin.connection.defaultProjectId;
+		if (!projectId) {
+			new Notice("Select a project first (settings or hub).");
+			return;
+		}
+		const selected = editor.somethingSelected();
+		const from = selected ? editor.getCursor("from").line : 0;
+		const to = selected ? editor.getCursor("to").line : editor.lastLine();
+		const lines = Array.from({ length: to - from + 1 }, (_, i) => editor.getLine(from + i));
+		const tasks = parseTasks(lines.join("\n"), from).filter((t) => !t.checked && !t.identifier && t.text);
+		if (!tasks.length) {
+			new Notice("No unchecked tasks to convert");
+			return;
+		}
+
+		let created = 0;
+		let queued = 0;
+		let unannotated = 0;
+		for (const task of tasks) {
+			const original = lines[task.line - from] ?? "";
+			let saved: PlaneWorkItem;
+			try {
+				saved = await plugin.upsertWorkItem(
+					{ name: task.text, module: plugin.connection.defaultModuleId || null },
+					undefined,
+					projectId,
+				);
+			} catch (error) {
+				new Notice(`Failed to create work item for "${task.text}": ${describeError(error)}`);
+				break;
+			}
+			if (isTempId(saved.id)) {
+				if (file && (await plugin.outbox.rememberTask(saved.id, file.path, original))) queued++;
+				else unannotated++;
+				continue;
+			}
+			if (!saved.identifier) {
+				unannotated++;
+				continue;
+			}
+			// the note may have been edited while the request was out
+			let line = task.line;
+			if (editor.getLine(line) !== original) {
+				line = Array.from({ length: editor.lineCount() }, (_, i) => i).find((i) => editor.getLine(i) === original) ?? -1;
+			}
+			if (line >= 0) editor.setLine(line, annotateTask(original, saved.identifier));
+			created++;
+		}
+		const total = created + unannotated;
+		const notes = [`Created ${total} Plane work item${total === 1 ? "" : "s"} from tasks`];
+		if (queued) notes.push(`${queued} queued offline; their tasks get the identifier once they are sent`);
+		if (unannotated) {
+			notes.push(`${unannotated} created without an identifier (the project list isn't loaded); don't convert them again`);
+		}
+		new Notice(notes.join("\n"));
+	}
+
+	/** Records the checkbox state of every annotated task in the vault. */
+	async snapshotAll(): Promise<void> {
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.hasTasks(this.app.metadataCache.getFileCache(file))) continue;
+			this.snapshots.set(file.path, this.checkboxes(await this.app.vault.cachedRead(file)));
+		}
+	}
+
+	onNoteRenamed(file: TFile, oldPath: string): void {
+		const snapshot = this.snapshots.get(oldPath);
+		if (!snapshot) return;
+		this.snapshots.delete(oldPath);
+		this.snapshots.set(file.path, snapshot);
+	}
+
+	/** A note changed; ticking or unticking an annotated task moves its work item. */
+	onNoteChanged(file: TFile, data: string, cache: CachedMetadata): void {
+		const previous = this.snapshots.get(file.path);
+		if (!previous && !this.hasTasks(cache)) return;
+		const current = this.checkboxes(data);
+		this.snapshots.set(file.path, current);
+		if (!previous) return;
+		for (const [identifier, checked] of current) {
+			const before = previous.get(identifier);
+			if (before !== undefined && before !== checked) void this.pushCheckbox(identifier, checked);
+		}
+	}
+
+	/** Ticks (or unticks) the tasks of items that were completed (or reopened) in Plane. */
+	async refreshCheckboxes(items: PlaneWorkItem[]): Promise<void> {
+		const wanted = new Map<string, boolean>();
+		for (const item of items) {
+			const group = this.stateOf(item)?.group;
+			// a cancelled item keeps whatever the note says
+			if (item.identifier && group && group !== "cancelled") wanted.set(item.identifier, group === "completed");
+		}
+		if (!wanted.size) return;
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.hasTasks(this.app.metadataCache.getFileCache(file))) continue;
+			const content = await this.app.vault.cachedRead(file);
+			const stale = parseTasks(content).some(
+				(t) => t.identifier && wanted.has(t.identifier) && wanted.get(t.identifier) !== t.checked,
+			);
+			if (!stale) continue;
+			await this.app.vault.process(file, (text) => {
+				const lines = text.split("\n");
+				for (const task of parseTasks(text)) {
+					const checked = task.identifier ? wanted.get(task.identifier) : undefined;
+					if (checked !== undefined && checked !== task.checked) {
+						lines[task.line] = setTaskChecked(lines[task.line] ?? "", checked);
+					}
+				}
+				const updated = lines.join("\n");
+				// our own write must not read as the user ticking the box
+				this.snapshots.set(file.path, this.checkboxes(updated));
+				return updated;
+			});
+		}
+	}
+
+	private async pushCheckbox(identifier: string, checked: boolean): Promise<void> {
+		const item = Object.values(this.plugin.cache.projects)
+			.flatMap((project) => project.workItems)
+			.find((w) => w.identifier === identifier);
+		if (!item) return;
+		const group = this.stateOf(item)?.group;
+		if (checked === (group === "completed")) return;
+		const target = this.firstState(item.project_id, checked ? "completed" : "unstarted");
+		if (!target) {
+			new Notice(`No ${checked ? "completed" : "unstarted"} state in the project of ${identifier}`);
+			return;
+		}
+		if (await this.plugin.moveWorkItem(item, target.id, undefined, item.project_id)) {
+			new Notice(`${identifier} moved to ${target.name}`);
+		} else {
+			// rejected by Plane: put the box back so the note doesn't claim otherwise
+			await this.refreshCheckboxes([item]);
+		}
+	}
+
+	/** Annotates the task a queued work item was made from, now that Plane has assigned its identifier. */
+	async annotateCreated(path: string, line: string, item: PlaneWorkItem): Promise<void> {
+		const { identifier } = item;
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!identifier || !(file instanceof TFile)) return;
+		await this.app.vault.process(file, (text) => {
+			const lines = text.split("\n");
+			// the task may have moved since it was converted
+			const index = lines.indexOf(line);
+			if (index === -1) return text;
+			lines[index] = annotateTask(line, identifier);
+			const updated = lines.join("\n");
+			this.snapshots.set(file.path, this.checkboxes(updated));
+			return updated;
+		});
+	}
+
+	private stateOf(item: PlaneWorkItem): PlaneState | undefined {
+		return this.plugin
+			.getProjectDataOrEmpty(item.project_id)
+			.states.find((s) => s.id === (item.state_id ?? item.state));
+	}
+
+	private firstState(projectId: string, group: string): PlaneState | undefined {
+		return this.plugin
+			.getProjectDataOrEmpty(projectId)
+			.states.filter((s) => s.group === group)
+			.sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0))[0];
+	}
+
+	private hasTasks(cache: CachedMetadata | null): boolean {
+		return !!cache?.listItems?.some((item) => item.task !== undefined);
+	}
+
+	private checkboxes(content: string): Map<string, boolean> {
+		const boxes = new Map<string, boolean>();
+		if (!ANNOTATION_RE.test(content)) return boxes;
+		for (const task of parseTasks(content)) {
+			if (task.identifier) boxes.set(task.identifier, task.checked);
+		}
+		return boxes;
+	}
+}
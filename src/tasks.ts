@@ -0,0 +1,43 @@
+const TASK_RE = /^(\s*(?:[-*+]|\d+[.)]) \[)(.)(\] )(.*)$/;
+// "(PROJ-42)" at the end of the task text, added when the work item was created
+const IDENTIFIER_RE = /\s*\(([A-Z][A-Z0-9]*-\d+)\)\s*$/;
+
+export interface NoteTask {
+	/** 0-based line number */
+	line: number;
+	checked: boolean;
+	/** Task text without the identifier annotation */
+	text: string;
+	identifier?: string;
+}
+
+export function parseTask(lineText: string, line: number): NoteTask | null {
+	const match = TASK_RE.exec(lineText);
+	if (!match) return null;
+	const rest = match[4] ?? "";
+	const annotation = IDENTIFIER_RE.exec(rest);
+	return {
+		line,
+		checked: match[2] !== " ",
+		text: annotation ? rest.slice(0, annotation.index).trim() : rest.trim(),
+		identifier: annotation?.[1],
+	};
+}
+
+/** Tasks in `text`, numbered from `firstLine`. */
+export function parseTasks(text: string, firstLine = 0): NoteTask[] {
+	return text
+		.split("\n")
+		.map((lineText, i) => parseTask(lineText, firstLine + i))
+		.filter((task): task is NoteTask => task !== null);
+}
+
+export function annotateTask(lineText: string, identifier: string): string {
+	return `${lineText.trimEnd()} (${identifier})`;
+}
+
+export function setTaskChecked(lineText: string, checked: boolean): string {
+	return lineText.replace(TASK_RE, (_match, open: string, _mark: string, close: string, rest: string) =>
+		`${open}${checked ? "x" : " "}${close}${rest}`,
+	);
+}
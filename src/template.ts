@@ -0,0 +1,70 @@
+/** Used when no note template is configured; matches the notes written before templates existed. */
+export const DEFAULT_NOTE_TEMPLATE = "# {{name}}\n\n{{description}}";
+
+export const TEMPLATE_FIELDS = [
+	"id",
+	"identifier",
+	"name",
+	"project",
+	"state",
+	"stateGroup",
+	"priority",
+	"module",
+	"labels",
+	"startDate",
+	"dueDate",
+	"description",
+	"url",
+] as const;
+
+export type TemplateValues = Record<(typeof TEMPLATE_FIELDS)[number], string>;
+
+/** Around the description in notes from a custom template: only this block syncs with Plane, the rest stays local. */
+export const DESCRIPTION_START = "<!-- plane:description -->";
+export const DESCRIPTION_END = "<!-- /plane:description -->";
+
+const PLACEHOLDER_RE = /\{\{\s*(\w+)\s*\}\}/g;
+const DESCRIPTION_PLACEHOLDER_RE = /\{\{\s*description\s*\}\}/;
+const FRONTMATTER_RE = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+// a placeholder together with the quotes around it, if any
+const YAML_PLACEHOLDER_RE = /(["']?)\{\{\s*(\w+)\s*\}\}\1/g;
+// not allowed in file names on some platform, or breaks wikilinks
+const UNSAFE_FILENAME_RE = /[\\/:*?"<>|#^[\]]/g;
+const MAX_FILENAME_LENGTH = 120;
+
+/**
+ * Replaces `{{field}}` placeholders; unknown placeholders are left as they are. Values
+ * in the frontmatter become quoted YAML strings, so a name like "Fix: crash" can't break it.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+	const frontmatter = FRONTMATTER_RE.exec(template)?.[0] ?? "";
+	const yaml = frontmatter.replace(YAML_PLACEHOLDER_RE, (match, quote: string, field: string) => {
+		if (!(field in values)) return match;
+		const value = values[field as keyof TemplateValues];
+		return quote === "'" ? `'${value.replace(/'/g, "''")}'` : JSON.stringify(value);
+	});
+	const body = template
+		.slice(frontmatter.length)
+		.replace(PLACEHOLDER_RE, (match, field: string) => (field in values ? values[field as keyof TemplateValues] : match));
+	return yaml + body;
+}
+
+/** Wraps the body's `{{description}}` in the synced block markers; templates without one get the block at the end. */
+export function withDescriptionBlock(template: string): string {
+	const frontmatter = FRONTMATTER_RE.exec(template)?.[0] ?? "";
+	const body = template.slice(frontmatter.length);
+	const block = `${DESCRIPTION_START}\n{{description}}\n${DESCRIPTION_END}`;
+	if (DESCRIPTION_PLACEHOLDER_RE.test(body)) return frontmatter + body.replace(DESCRIPTION_PLACEHOLDER_RE, block);
+	return `${frontmatter}${body.trimEnd()}\n\n${block}\n`;
+}
+
+/** Turns a rendered filename pattern into a safe note name, or "" when nothing usable is left. */
+export function sanitizeFilename(name: string): string {
+	return name
+		.replace(UNSAFE_FILENAME_RE, "")
+		.replace(/\s+/g, " ")
+		.trim()
+		.replace(/^\.+|\.+$/g, "")
+		.slice(0, MAX_FILENAME_LENGTH)
+		.trim();
+}
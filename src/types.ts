@@ -10,6 +10,34 @@ export interface PlaneModule {
 	project_id: string;
 }
 
+export interface PlaneLabel {
+	id: string;
+	name: string;
+	color?: string | null;
+	parent?: string | null;
+}
+
+/** A workspace user as returned by the members and users/me endpoints. */
+export interface PlaneMember {
+	id: string;
+	display_name?: string | null;
+	first_name?: string | null;
+	last_name?: string | null;
+	email?: string | null;
+	avatar?: string | null;
+	avatar_url?: string | null;
+}
+
+export interface PlaneCycle {
+	id: string;
+	name: string;
+	description?: string | null;
+	start_date?: string | null;
+	end_date?: string | null;
+	status?: string | null;
+	project_id: string;
+}
+
 export interface PlaneWorkItem {
 	id: string;
 	name: string;
@@ -20,8 +48,79 @@ export interface PlaneWorkItem {
 	priority?: string | null;
 	module?: string | null;
 	module_id?: string | null; // Plane often returns module_id
+	cycle?: string | null;
+	labels?: string[];
+	assignees?: string[];
+	parent?: string | null;
+	/** Filled in locally from the relations endpoint; not part of the work item response */
+	relations?: PlaneRelations;
 	project_id: string;
+	/** "PROJ-42"; Plane only sends `sequence_id`, so this is filled in from the project identifier */
 	identifier?: string;
+	sequence_id?: number;
+	sort_order?: number;
+	start_date?: string | null;
+	target_date?: string | null;
+	updated_at?: string;
+}
+
+export type RelationType = "blocking" | "blocked_by" | "duplicate" | "relates_to";
+
+/** Related work item ids by relation type, as returned by the relations endpoint. */
+export type PlaneRelations = Record<RelationType, string[]>;
+
+export interface PlaneComment {
+	id: string;
+	comment_html?: string | null;
+	comment_stripped?: string | null;
+	actor?: string | null;
+	actor_detail?: { id?: string; display_name?: string; first_name?: string; last_name?: string } | null;
+	created_at?: string;
+	updated_at?: string;
+}
+
+export interface PlaneAttachment {
+	id: string;
+	attributes?: { name?: string; size?: number; type?: string } | null;
+	asset?: string | null;
+	is_uploaded?: boolean;
+	created_at?: string;
+}
+
+/** Answer to an attachment create: a presigned S3 form the file is posted to. */
+export interface AttachmentUploadTicket {
+	upload_data: { url: string; fields: Record<string, string> };
+	asset_id: string;
+	attachment?: PlaneAttachment;
+}
+
+export interface WorkItemPayload {
+	name: string;
+	description_html?: string | null;
+	state?: string | null;
+	priority?: string | null;
+	module?: string | null;
+	labels?: string[];
+	assignees?: string[];
+	parent?: string | null;
+	start_date?: string | null;
+	target_date?: string | null;
+	sort_order?: number;
+}
+
+export interface ModulePayload {
+	name: string;
+	status?: string | null;
+	description?: string | null;
+	start_date?: string | null;
+	target_date?: string | null;
+}
+
+export interface CyclePayload {
+	name: string;
+	description?: string | null;
+	start_date?: string | null;
+	end_date?: string | null;
 }
 
 export interface PlaneListResponse<T> {
@@ -36,6 +135,7 @@ export interface PlaneState {
 	name: string;
 	group?: string;
 	color?: string;
+	sequence?: number;
 }
 
 export interface PlaneProject {
@@ -46,6 +146,9 @@ export interface PlaneProject {
 
 export interface ProjectCache {
 	modules: PlaneModule[];
+	cycles: PlaneCycle[];
+	labels: PlaneLabel[];
+	members: PlaneMember[];
 	workItems: PlaneWorkItem[];
 	states: PlaneState[];
 	lastSync?: number;
@@ -54,9 +157,49 @@ export interface ProjectCache {
 export interface PlaneCache {
 	projects: Record<string, ProjectCache>;
 	selectedProjectId?: string;
+	/** The user the API token belongs to; drives "My work". */
+	me?: PlaneMember;
+}
+
+interface OutboxEntryBase {
+	/** Local id of the queued operation */
+	id: string;
+	/** Connection profile the change belongs to; missing on entries queued before profiles existed */
+	profileId?: string;
+	projectId: string;
+	createdAt: number;
+	attempts: number;
+	status: "pending" | "failed";
+	lastError?: string;
+	/** A replayed note push met a remote change; it stays until the user resolves it */
+	conflict?: boolean;
 }
 
+/**
+ * A mutation waiting to reach Plane. Creates carry the temporary id the cache
+ * uses for the new record until the server assigns a real one.
+ */
+export type OutboxEntry = OutboxEntryBase &
+	(
+		| {
+				kind: "work-item";
+				op: "create";
+				targetId: string;
+				payload: WorkItemPayload;
+				/** The note task the item was made from, annotated with the identifier once it is created */
+				task?: { path: string; line: string };
+		  }
+		// updates only carry the fields that changed
+		| { kind: "work-item"; op: "update"; targetId: string; payload: Partial<WorkItemPayload> }
+		| { kind: "module"; op: "create" | "update"; targetId: string; payload: ModulePayload }
+		| { kind: "note-push"; op: "update"; targetId: string; payload: { path: string } }
+	);
+
 export interface PersistedData {
 	settings?: unknown;
+	/** Keyed by profile id and workspace slug, see `cacheKey` */
+	caches?: Record<string, PlaneCache>;
+	/** Single cache written before connection profiles existed */
 	cache?: PlaneCache;
+	outbox?: OutboxEntry[];
 }
@@ -0,0 +1,144 @@
+import { PRIORITIES, priorityRank } from "../query";
+import type { PlaneWorkItem, ProjectCache, WorkItemPayload } from "../types";
+import { sortBySortOrder } from "./kanbanDrag";
+
+export type BoardGroupBy = "state" | "priority" | "module" | "assignee";
+export type BoardSort = "manual" | "priority" | "identifier" | "updated" | "target";
+
+/** How the board arranges one project's cards; kept per project in the board's view state. */
+export interface BoardLayout {
+	columns: BoardGroupBy;
+	lanes: BoardGroupBy | "none";
+	sort: BoardSort;
+}
+
+export const DEFAULT_BOARD_LAYOUT: BoardLayout = { columns: "state", lanes: "none", sort: "manual" };
+
+export const GROUP_LABELS: Record<BoardGroupBy, string> = {
+	state: "State",
+	priority: "Priority",
+	module: "Module",
+	assignee: "Assignee",
+};
+
+export const SORT_LABELS: Record<BoardSort, string> = {
+	manual: "Manual",
+	priority: "Priority",
+	identifier: "Identifier",
+	updated: "Recently updated",
+	target: "Target date",
+};
+
+export interface BoardGroup {
+	/** State, module or member id, or the priority; "" collects items without one */
+	key: string;
+	title: string;
+	color?: string;
+	items: PlaneWorkItem[];
+}
+
+/** Group keys of an item; an item with several assignees shows up under each of them. */
+function groupKeys(item: PlaneWorkItem, groupBy: BoardGroupBy): string[] {
+	switch (groupBy) {
+		case "state":
+			return [item.state_id ?? item.state ?? ""];
+		case "priority":
+			return [item.priority || "none"];
+		case "module":
+			return [item.module ?? item.module_id ?? ""];
+		case "assignee":
+			return item.assignees?.length ? item.assignees : [""];
+	}
+}
+
+/**
+ * Splits `items` into groups in a stable order (state sequence, priority, module or
+ * member order). Every known value gets a group, even an empty one, so cards can be
+ * dropped into it; the catch-all group only appears when something lands in it.
+ */
+export function groupItems(items: PlaneWorkItem[], groupBy: BoardGroupBy, data: ProjectCache): BoardGroup[] {
+	const groups = new Map<string, BoardGroup>();
+	if (groupBy === "state") {
+		for (const state of [...data.states].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0))) {
+			groups.set(state.id, { key: state.id, title: state.name, color: state.color, items: [] });
+		}
+	} else if (groupBy === "priority") {
+		for (const priority of PRIORITIES) groups.set(priority, { key: priority, title: priority, items: [] });
+	} else if (groupBy === "module") {
+		for (const mod of data.modules) groups.set(mod.id, { key: mod.id, title: mod.name, items: [] });
+	} else {
+		for (const member of data.members) {
+			const name = member.display_name || [member.first_name, member.last_name].filter(Boolean).join(" ");
+			groups.set(member.id, { key: member.id, title: name || member.email || member.id, items: [] });
+		}
+	}
+
+	const fallback = { state: "Unspecified", priority: "none", module: "No module", assignee: "Unassigned" }[groupBy];
+	for (const item of items) {
+		for (const key of groupKeys(item, groupBy)) {
+			let group = groups.get(key);
+			if (!group) {
+				// a value the cache doesn't know (e.g. a member who left the project)
+				group = { key, title: key ? key.slice(0, 8) : fallback, items: [] };
+				groups.set(key, group);
+			}
+			group.items.push(item);
+		}
+	}
+	return Array.from(groups.values());
+}
+
+/**
+ * The fields to change when a card is dragged from group `from` to group `to`, or null
+ * when the target can't be set (items without a state). Dragging between assignee
+ * groups swaps that one assignee and keeps the others.
+ */
+export function moveChanges(
+	item: PlaneWorkItem,
+	groupBy: BoardGroupBy,
+	from: string,
+	to: string,
+): Partial<WorkItemPayload> | null {
+	if (from === to) return {};
+	switch (groupBy) {
+		case "state":
+			return to ? { state: to } : null;
+		case "priority":
+			return { priority: to };
+		case "module":
+			return { module: to || null };
+		case "assignee": {
+			const assignees = (item.assignees ?? []).filter((id) => id !== from);
+			if (to && !assignees.includes(to)) assignees.push(to);
+			return { assignees };
+		}
+	}
+}
+
+function sequence(item: PlaneWorkItem): number {
+	if (item.sequence_id !== undefined) return item.sequence_id;
+	const match = /-(\d+)$/.exec(item.identifier ?? "");
+	return match ? Number(match[1]) : Number.MAX_SAFE_INTEGER;
+}
+
+function time(value: string | null | undefined): number {
+	const parsed = value ? Date.parse(value) : NaN;
+	return Number.isNaN(parsed) ? Number.MAX_SAFE_INTEGER : parsed;
+}
+
+/** Card order within a column: manual follows Plane's `sort_order`, undated items sort last by target date. */
+export function sortItems(items: PlaneWorkItem[], sort: BoardSort): PlaneWorkItem[] {
+	const sorted = sortBySortOrder(items);
+	switch (sort) {
+		case "priority":
+			return sorted.sort((a, b) => priorityRank(a.priority) - priorityRank(b.priority));
+		case "identifier":
+			return sorted.sort((a, b) => sequence(a) - sequence(b));
+		case "updated":
+			return sorted.sort((a, b) => (Date.parse(b.updated_at ?? "") || 0) - (Date.parse(a.updated_at ?? "") || 0));
+		case "target":
+			return sorted.sort((a, b) => time(a.target_date) - time(b.target_date));
+		default:
+			return sorted;
+	}
+}
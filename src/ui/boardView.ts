@@ -2,20 +2,60 @@ import {
 	ItemView,
 	DropdownComponent,
 	ButtonComponent,
+	Notice,
 	type ViewStateResult,
 } from "obsidian";
 import type { WorkspaceLeaf } from "obsidian";
+import { describeError } from "../errors";
 import type PlaneProjectPlugin from "../main";
-import type { PlaneState, PlaneWorkItem } from "../types";
+import type { PlaneWorkItem, ProjectCache } from "../types";
+import {
+	DEFAULT_BOARD_LAYOUT,
+	GROUP_LABELS,
+	SORT_LABELS,
+	groupItems,
+	moveChanges,
+	sortItems,
+	type BoardGroupBy,
+	type BoardLayout,
+	type BoardSort,
+} from "./boardLayout";
+import {
+	renderAssignees,
+	renderBlocked,
+	renderCardMenu,
+	renderChildProgress,
+	renderLabelPills,
+	renderSubIssues,
+} from "./cards";
+import { makeCardDraggable, makeColumnDropTarget } from "./kanbanDrag";
 
 export const VIEW_TYPE_PLANE_BOARD = "plane-project-board";
 
 interface BoardViewState {
 	projectId?: string;
+	/** Only show items assigned to the API token's user */
+	myWork?: boolean;
+	/** Column, lane and sort choices per project id */
+	layouts?: Record<string, BoardLayout>;
+}
+
+/** The column and lane keys a card sits in or is dropped into */
+interface DropGroup {
+	column: string;
+	lane?: string;
 }
 
 export class PlaneBoardView extends ItemView {
 	private moduleFilter: string | undefined;
+	// undefined until the user picks one, so the current cycle can be the default
+	private cycleFilter: string | undefined;
+	private labelFilter: string | undefined;
+	private myWork = false;
+	private layouts: Record<string, BoardLayout> = {};
+	private readonly expanded = new Set<string>();
+	// where the card being dragged came from
+	private dragOrigin: DropGroup | null = null;
 	private readonly onCache = () => this.render();
 
 	constructor(
@@ -40,13 +80,17 @@ export class PlaneBoardView extends ItemView {
 		const project = this.plugin.projectLabel(
 			this.plugin.cache.selectedProjectId ?? "",
 		);
-		return project ? `Plane Board: ${project}` : "Plane Board";
+		const title = this.myWork ? "Plane: My work" : "Plane Board";
+		return project ? `${title}: ${project}` : title;
 	}
 
 	async setState(
 		state: BoardViewState,
 		result: ViewStateResult,
 	): Promise<void> {
+		this.myWork = Boolean(state.myWork);
+		// a state without layouts (e.g. from another view) keeps the current ones
+		this.layouts = state.layouts ?? this.layouts;
 		if (state.projectId) {
 			this.plugin.cache.selectedProjectId = state.projectId;
 			await this.plugin.savePersisted();
@@ -55,6 +99,14 @@ export class PlaneBoardView extends ItemView {
 		return super.setState(state, result);
 	}
 
+	getState(): Record<string, unknown> {
+		return {
+			projectId: this.plugin.cache.selectedProjectId,
+			myWork: this.myWork,
+			layouts: this.layouts,
+		};
+	}
+
 	async onOpen(): Promise<void> {
 		await this.plugin.refreshProjectsList();
 		this.render();
@@ -74,6 +126,17 @@ export class PlaneBoardView extends ItemView {
 		header.createEl("h2", { text: "Plane project board" });
 
 		const actions = header.createDiv({ cls: "plane-hub__actions" });
+		if (this.plugin.settings.profiles.length > 1) {
+			const profileSelect = new DropdownComponent(actions);
+			for (const profile of this.plugin.settings.profiles) {
+				profileSelect.addOption(profile.id, profile.name);
+			}
+			profileSelect.setValue(this.plugin.connection.id);
+			// the board re-renders on the cache-updated event fired by the switch
+			profileSelect.onChange(async (value) => {
+				await this.plugin.switchProfile(value);
+			});
+		}
 		const projectSelect = new DropdownComponent(actions);
 		projectSelect.addOption("", "Select project");
 		for (const proj of this.plugin.availableProjects) {
@@ -81,7 +144,7 @@ export class PlaneBoardView extends ItemView {
 		}
 		projectSelect.setValue(
 			this.plugin.cache.selectedProjectId ??
-				this.plugin.settings.defaultProjectId ??
+				this.plugin.connection.defaultProjectId ??
 				"",
 		);
 		projectSelect.onChange(async (value) => {
@@ -99,6 +162,7 @@ export class PlaneBoardView extends ItemView {
 		});
 
 		this.renderFilters(contentEl);
+		this.renderLayoutOptions(contentEl);
 		this.renderKanban(contentEl);
 	}
 
@@ -120,6 +184,107 @@ export class PlaneBoardView extends ItemView {
 			this.moduleFilter = value || undefined;
 			this.render();
 		});
+
+		row.createEl("span", {
+			text: "Cycle",
+			cls: "plane-hub__muted",
+		});
+		const cycleDropdown = new DropdownComponent(row);
+		cycleDropdown.addOption("", "All cycles");
+		for (const cycle of this.plugin.getProjectDataOrEmpty().cycles) {
+			cycleDropdown.addOption(cycle.id, cycle.name);
+		}
+		cycleDropdown.setValue(this.activeCycle() ?? "");
+		cycleDropdown.onChange((value) => {
+			this.cycleFilter = value;
+			this.render();
+		});
+
+		row.createEl("span", {
+			text: "Label",
+			cls: "plane-hub__muted",
+		});
+		const labelDropdown = new DropdownComponent(row);
+		labelDropdown.addOption("", "All labels");
+		for (const label of this.plugin.getProjectDataOrEmpty().labels) {
+			labelDropdown.addOption(label.id, label.name);
+		}
+		labelDropdown.setValue(this.labelFilter ?? "");
+		labelDropdown.onChange((value) => {
+			this.labelFilter = value || undefined;
+			this.render();
+		});
+
+		const mine = new ButtonComponent(row);
+		mine.setButtonText("My work").onClick(() => {
+			this.myWork = !this.myWork;
+			this.app.workspace.requestSaveLayout();
+			this.render();
+		});
+		if (this.myWork) mine.setCta();
+		if (!this.plugin.cache.me) {
+			mine.setDisabled(true).setTooltip("Sync once to identify your plane user");
+		}
+	}
+
+	private renderLayoutOptions(container: HTMLElement): void {
+		const row = container.createDiv({
+			cls: "plane-hub__filters plane-hub__row",
+		});
+		const { columns, lanes, sort } = this.layout;
+
+		row.createEl("span", { text: "Columns", cls: "plane-hub__muted" });
+		const columnDropdown = new DropdownComponent(row);
+		for (const [value, label] of Object.entries(GROUP_LABELS)) {
+			columnDropdown.addOption(value, label);
+		}
+		columnDropdown.setValue(columns).onChange((value) => {
+			const next = value as BoardGroupBy;
+			// lanes by the same field would put one card per lane
+			this.setLayout({
+				columns: next,
+				lanes: lanes === next ? "none" : lanes,
+			});
+		});
+
+		row.createEl("span", { text: "Lanes", cls: "plane-hub__muted" });
+		const laneDropdown = new DropdownComponent(row);
+		laneDropdown.addOption("none", "None");
+		for (const [value, label] of Object.entries(GROUP_LABELS)) {
+			if (value !== columns) laneDropdown.addOption(value, label);
+		}
+		laneDropdown.setValue(lanes).onChange((value) => {
+			this.setLayout({ lanes: value as BoardGroupBy | "none" });
+		});
+
+		row.createEl("span", { text: "Sort", cls: "plane-hub__muted" });
+		const sortDropdown = new DropdownComponent(row);
+		for (const [value, label] of Object.entries(SORT_LABELS)) {
+			sortDropdown.addOption(value, label);
+		}
+		sortDropdown.setValue(sort).onChange((value) => {
+			this.setLayout({ sort: value as BoardSort });
+		});
+	}
+
+	private get layout(): BoardLayout {
+		const projectId = this.plugin.cache.selectedProjectId ?? "";
+		return { ...DEFAULT_BOARD_LAYOUT, ...this.layouts[projectId] };
+	}
+
+	private setLayout(change: Partial<BoardLayout>): void {
+		const projectId = this.plugin.cache.selectedProjectId ?? "";
+		this.layouts = {
+			...this.layouts,
+			[projectId]: { ...this.layout, ...change },
+		};
+		this.app.workspace.requestSaveLayout();
+		this.render();
+	}
+
+	private activeCycle(): string | undefined {
+		if (this.cycleFilter !== undefined) return this.cycleFilter || undefined;
+		return this.plugin.currentCycle()?.id;
 	}
 
 	private renderKanban(container: HTMLElement): void {
@@ -136,12 +301,39 @@ export class PlaneBoardView extends ItemView {
 			return;
 		}
 
-		const columns = this.buildColumns(
-			data,
-			this.plugin.getProjectDataOrEmpty().states,
-		);
-		const board = section.createDiv({ cls: "plane-board" });
-		for (const column of columns) {
+		const project = this.plugin.getProjectDataOrEmpty();
+		const { lanes } = this.layout;
+		if (lanes === "none") {
+			this.renderBoard(section, data, project);
+			return;
+		}
+		for (const lane of groupItems(data, lanes, project)) {
+			if (!lane.items.length) continue;
+			const laneEl = section.createDiv({ cls: "plane-board__lane" });
+			const head = laneEl.createDiv({ cls: "plane-board__lane-head" });
+			head.createEl("span", { text: lane.title });
+			head.createEl("span", {
+				text: `${lane.items.length}`,
+				cls: "plane-hub__muted",
+			});
+			this.renderBoard(laneEl, lane.items, project, lane.key);
+		}
+	}
+
+	/**
+	 * One row of columns (of lane `laneKey`, if lanes are on). A drop sets the
+	 * column's and the lane's value; a sorted board drops without reordering.
+	 */
+	private renderBoard(
+		container: HTMLElement,
+		items: PlaneWorkItem[],
+		project: ProjectCache,
+		laneKey?: string,
+	): void {
+		const { columns, sort } = this.layout;
+		const board = container.createDiv({ cls: "plane-board" });
+		for (const column of groupItems(items, columns, project)) {
+			const columnItems = sortItems(column.items, sort);
 			const colEl = board.createDiv({ cls: "plane-board__column" });
 			if (column.color) {
 				colEl.style.background = this.dimColor(column.color, 0.08);
@@ -150,71 +342,161 @@ export class PlaneBoardView extends ItemView {
 			const head = colEl.createDiv({ cls: "plane-board__column-head" });
 			head.createEl("span", { text: column.title });
 			head.createEl("span", {
-				text: `${column.items.length}`,
+				text: `${columnItems.length}`,
 				cls: "plane-hub__muted",
 			});
-
-			for (const item of column.items) {
-				const card = colEl.createDiv({ cls: "plane-board__card" });
-				card.createEl("div", {
-					text: item.name,
-					cls: "plane-hub__card-title",
-				});
-				const meta = card.createDiv({ cls: "plane-hub__card-meta" });
-				if (item.identifier)
-					meta.createSpan({
-						text: item.identifier,
-						cls: "plane-hub__pill",
-					});
-				if (item.priority) meta.createSpan({ text: item.priority });
-				const modId = item.module ?? item.module_id ?? null;
-				if (modId) meta.createSpan({ text: this.moduleName(modId) });
-
-				const actions = card.createDiv({ cls: "plane-hub__row" });
-				new ButtonComponent(actions)
-					.setButtonText("Edit")
-					.onClick(() => this.plugin.openHub());
-				new ButtonComponent(actions)
-					.setButtonText("Note")
-					.onClick(async () => {
-						const file =
-							await this.plugin.ensureNoteForWorkItem(item);
-						const leaf = this.app.workspace.getLeaf(true);
-						await leaf.openFile(file);
-					});
+			const target = { column: column.key, lane: laneKey };
+			// items without a state can't be moved back there
+			if (columns !== "state" || column.key) {
+				makeColumnDropTarget(colEl, columnItems, (itemId, sortOrder) =>
+					this.onCardDrop(
+						itemId,
+						target,
+						sort === "manual" ? sortOrder : undefined,
+					),
+				);
 			}
+			for (const item of columnItems) this.renderCard(colEl, item, target);
 		}
 	}
 
-	private buildColumns(items: PlaneWorkItem[], states: PlaneState[]) {
-		const stateMap = new Map<string, PlaneState>();
-		for (const s of states) stateMap.set(s.id, s);
-		const grouped = new Map<
-			string,
-			{ title: string; items: PlaneWorkItem[]; color?: string }
-		>();
-
-		for (const item of items) {
-			const state = item.state_id ?? item.state ?? "unspecified";
-			const stateInfo = stateMap.get(state);
-			const title = stateInfo?.name ?? "Unspecified";
-			if (!grouped.has(state))
-				grouped.set(state, {
-					title,
-					items: [],
-					color: stateInfo?.color,
-				});
-			grouped.get(state)!.items.push(item);
-		}
+	private renderCard(
+		colEl: HTMLElement,
+		item: PlaneWorkItem,
+		group: DropGroup,
+	): void {
+		const card = colEl.createDiv({ cls: "plane-board__card" });
+		makeCardDraggable(card, item);
+		// an item with several assignees has a card in each of their groups
+		card.addEventListener("dragstart", () => {
+			this.dragOrigin = group;
+		});
+		card.createEl("div", {
+			text: item.name,
+			cls: "plane-hub__card-title",
+		});
+		const meta = card.createDiv({ cls: "plane-hub__card-meta" });
+		if (item.identifier)
+			meta.createSpan({
+				text: item.identifier,
+				cls: "plane-hub__pill",
+			});
+		if (item.priority) meta.createSpan({ text: item.priority });
+		const modId = item.module ?? item.module_id ?? null;
+		if (modId) meta.createSpan({ text: this.moduleName(modId) });
+		renderLabelPills(
+			meta,
+			item.labels,
+			this.plugin.getProjectDataOrEmpty().labels,
+		);
+		renderAssignees(
+			meta,
+			item.assignees,
+			this.plugin.getProjectDataOrEmpty().members,
+			this.plugin.connection.apiBaseUrl,
+		);
+		const children = this.plugin.childrenOf(item.id);
+		const states = this.plugin.getProjectDataOrEmpty().states;
+		renderChildProgress(meta, children, states);
+		renderBlocked(
+			meta,
+			item,
+			this.plugin.getProjectDataOrEmpty().workItems,
+			states,
+		);
+		renderSubIssues(card, item, children, states, this.expanded);
 
-		return Array.from(grouped.values());
+		const actions = card.createDiv({ cls: "plane-hub__row" });
+		new ButtonComponent(actions)
+			.setButtonText("Edit")
+			.onClick(() => this.plugin.openHub());
+		new ButtonComponent(actions)
+			.setButtonText("Sub-issue")
+			.onClick(() =>
+				this.plugin.openHub().openWorkItemForm(undefined, {
+					parent: item.id,
+					module: item.module,
+				}),
+			);
+		renderCardMenu(actions, [
+			{
+				title: "Archive",
+				icon: "archive",
+				onClick: () =>
+					void this.plugin.confirmRemoveWorkItem(item, "archive"),
+			},
+			{
+				title: "Delete",
+				icon: "trash",
+				warning: true,
+				onClick: () =>
+					void this.plugin.confirmRemoveWorkItem(item, "delete"),
+			},
+		]);
+		new ButtonComponent(actions)
+			.setButtonText("Note")
+			.onClick(async () => {
+				const file = await this.plugin.ensureNoteForWorkItem(item);
+				const leaf = this.app.workspace.getLeaf(true);
+				await leaf.openFile(file);
+			});
+	}
+
+	private onCardDrop(
+		itemId: string,
+		target: DropGroup,
+		sortOrder: number | undefined,
+	): void {
+		const item = this.plugin
+			.getProjectDataOrEmpty()
+			.workItems.find((w) => w.id === itemId);
+		if (!item) return;
+		const origin = this.dragOrigin ?? target;
+		const { columns, lanes } = this.layout;
+		const columnChanges = moveChanges(
+			item,
+			columns,
+			origin.column,
+			target.column,
+		);
+		const laneChanges =
+			lanes === "none"
+				? {}
+				: moveChanges(item, lanes, origin.lane ?? "", target.lane ?? "");
+		if (!columnChanges || !laneChanges) return;
+		const changes = { ...laneChanges, ...columnChanges };
+		if (sortOrder !== undefined) changes.sort_order = sortOrder;
+		if (!Object.keys(changes).length) return;
+
+		const stateId = changes.state ?? item.state_id ?? item.state;
+		const onlyState = Object.keys(changes).every(
+			(key) => key === "state" || key === "sort_order",
+		);
+		// state moves update the card before Plane answers
+		if (onlyState && stateId) {
+			void this.plugin.moveWorkItem(item, stateId, sortOrder);
+			return;
+		}
+		void this.plugin
+			.patchWorkItem(item, changes)
+			.catch((error) => {
+				new Notice(`Plane move failed: ${describeError(error)}`);
+			});
 	}
 
 	private filteredItems(): PlaneWorkItem[] {
 		const data = this.plugin.getProjectDataOrEmpty();
+		const cycle = this.activeCycle();
 		return data.workItems.filter((item) => {
 			const modId = item.module ?? item.module_id ?? null;
 			if (this.moduleFilter && modId !== this.moduleFilter) return false;
+			if (cycle && item.cycle !== cycle) return false;
+			if (
+				this.labelFilter &&
+				!(item.labels ?? []).includes(this.labelFilter)
+			)
+				return false;
+			if (this.myWork && !this.plugin.isAssignedToMe(item)) return false;
 			return true;
 		});
 	}
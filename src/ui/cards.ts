@@ -0,0 +1,133 @@
+import { ButtonComponent, Menu } from "obsidian";
+import { childProgress } from "../hierarchy";
+import { openBlockers } from "../relations";
+import type { PlaneLabel, PlaneMember, PlaneState, PlaneWorkItem } from "../types";
+
+/** Coloured label pills for a work item card; unknown label ids are skipped. */
+export function renderLabelPills(container: HTMLElement, labelIds: string[] | undefined, labels: PlaneLabel[]): void {
+	for (const id of labelIds ?? []) {
+		const label = labels.find((l) => l.id === id);
+		if (!label) continue;
+		const pill = container.createSpan({ text: label.name, cls: "plane-label" });
+		if (label.color) pill.style.setProperty("--plane-label-color", label.color);
+	}
+}
+
+export function memberName(member: PlaneMember | undefined, fallback = "Unknown"): string {
+	if (!member) return fallback;
+	const full = [member.first_name, member.last_name].filter(Boolean).join(" ");
+	return member.display_name || full || member.email || fallback;
+}
+
+/** Avatar (or initials when Plane has no picture) followed by the display name. */
+export function renderMember(container: HTMLElement, member: PlaneMember | undefined, baseUrl: string): HTMLElement {
+	const name = memberName(member);
+	const el = container.createSpan({ cls: "plane-member", attr: { title: name } });
+	const avatar = member?.avatar_url || member?.avatar;
+	if (avatar) {
+		// uploaded avatars come back as paths relative to the Plane host
+		const src = avatar.startsWith("/") ? `${baseUrl.replace(/\/$/, "")}${avatar}` : avatar;
+		el.createEl("img", { cls: "plane-member__avatar", attr: { src, alt: "" } });
+	} else {
+		el.createSpan({ text: name.slice(0, 1).toUpperCase(), cls: "plane-member__avatar" });
+	}
+	el.createSpan({ text: name, cls: "plane-member__name" });
+	return el;
+}
+
+/** Assignee avatars for a work item card; ids not in `members` render as "Unknown". */
+export function renderAssignees(
+	container: HTMLElement,
+	assigneeIds: string[] | undefined,
+	members: PlaneMember[],
+	baseUrl: string,
+): void {
+	for (const id of assigneeIds ?? []) {
+		renderMember(
+			container,
+			members.find((m) => m.id === id),
+			baseUrl,
+		).addClass("plane-member--compact");
+	}
+}
+
+/** "3/5 done" pill for a parent card; nothing for items without children. */
+export function renderChildProgress(container: HTMLElement, children: PlaneWorkItem[], states: PlaneState[]): void {
+	if (!children.length) return;
+	const { done, total } = childProgress(children, states);
+	const pill = container.createSpan({ text: `${done}/${total} done`, cls: "plane-hub__pill plane-progress" });
+	pill.toggleClass("is-complete", total > 0 && done === total);
+}
+
+/**
+ * Collapsible list of a card's children. `expanded` holds the ids of open cards and
+ * lives in the view so it survives re-renders.
+ */
+export function renderSubIssues(
+	card: HTMLElement,
+	parent: PlaneWorkItem,
+	children: PlaneWorkItem[],
+	states: PlaneState[],
+	expanded: Set<string>,
+): void {
+	if (!children.length) return;
+	const caption = (open: boolean) =>
+		`${open ? "▾" : "▸"} ${children.length} sub-issue${children.length === 1 ? "" : "s"}`;
+	const open = expanded.has(parent.id);
+	const toggle = card.createDiv({ text: caption(open), cls: "plane-subissues__toggle" });
+	const list = card.createDiv({ cls: "plane-subissues" });
+	list.toggleClass("is-hidden", !open);
+	for (const child of children) {
+		const row = list.createDiv({ cls: "plane-subissues__item" });
+		if (child.identifier) row.createSpan({ text: child.identifier, cls: "plane-hub__pill" });
+		row.createSpan({ text: child.name });
+		const state = states.find((s) => s.id === (child.state_id ?? child.state));
+		if (state) row.createSpan({ text: state.name, cls: "plane-hub__muted" });
+	}
+	toggle.addEventListener("click", () => {
+		if (expanded.has(parent.id)) expanded.delete(parent.id);
+		else expanded.add(parent.id);
+		list.toggleClass("is-hidden", !expanded.has(parent.id));
+		toggle.setText(caption(expanded.has(parent.id)));
+	});
+}
+
+/** "Blocked" pill listing the open blockers in its tooltip. */
+export function renderBlocked(
+	container: HTMLElement,
+	item: PlaneWorkItem,
+	items: PlaneWorkItem[],
+	states: PlaneState[],
+): void {
+	const blockers = openBlockers(item, items, states);
+	if (!blockers.length) return;
+	container.createSpan({
+		text: "Blocked",
+		cls: "plane-hub__pill plane-blocked",
+		attr: { title: blockers.map((b) => `${b.identifier ? `${b.identifier} ` : ""}${b.name}`).join("\n") },
+	});
+}
+
+export interface CardMenuEntry {
+	title: string;
+	icon: string;
+	onClick: () => void;
+	warning?: boolean;
+}
+
+/** "More" button opening a context menu with the less common card actions. */
+export function renderCardMenu(container: HTMLElement, entries: CardMenuEntry[]): void {
+	new ButtonComponent(container)
+		.setIcon("more-horizontal")
+		.setTooltip("More actions")
+		.onClick((event) => {
+			const menu = new Menu();
+			for (const entry of entries) {
+				menu.addItem((menuItem) => {
+					menuItem.setTitle(entry.title).setIcon(entry.icon).onClick(entry.onClick);
+					if (entry.warning) menuItem.setWarning(true);
+				});
+			}
+			menu.showAtMouseEvent(event);
+		});
+}
@@ -0,0 +1,88 @@
+import { App, ButtonComponent, Modal, TextAreaComponent } from "obsidian";
+import { diffLines, mergeWithMarkers } from "../diff";
+
+export type ConflictResolution =
+	| { kind: "local" }
+	| { kind: "remote" }
+	| { kind: "merge"; text: string };
+
+/**
+ * Shows the note body next to the Plane description and lets the user pick a side
+ * or hand-merge them. Resolves with null when dismissed without choosing.
+ */
+export class ConflictModal extends Modal {
+	private resolution: ConflictResolution | null = null;
+
+	constructor(
+		app: App,
+		private readonly title: string,
+		private readonly local: string,
+		private readonly remote: string,
+		private readonly onDone: (resolution: ConflictResolution | null) => void,
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass("plane-conflict-modal");
+		this.titleEl.setText(`Sync conflict: ${this.title}`);
+		const { contentEl } = this;
+		contentEl.createEl("p", {
+			text: "The note and the plane work item both changed since the last sync.",
+			cls: "plane-hub__muted",
+		});
+
+		const rows = diffLines(this.local, this.remote);
+		const table = contentEl.createDiv({ cls: "plane-diff" });
+		const head = table.createDiv({ cls: "plane-diff__row plane-diff__head" });
+		head.createDiv({ text: "Note (local)" });
+		head.createDiv({ text: "Plane (remote)" });
+		for (const row of rows) {
+			const rowEl = table.createDiv({ cls: `plane-diff__row plane-diff__row--${row.kind}` });
+			rowEl.createDiv({ text: row.left ?? "", cls: "plane-diff__cell" });
+			rowEl.createDiv({ text: row.right ?? "", cls: "plane-diff__cell" });
+		}
+
+		const buttons = contentEl.createDiv({ cls: "plane-hub__row" });
+		new ButtonComponent(buttons).setButtonText("Keep local").onClick(() => this.finish({ kind: "local" }));
+		new ButtonComponent(buttons).setButtonText("Keep remote").onClick(() => this.finish({ kind: "remote" }));
+		new ButtonComponent(buttons)
+			.setButtonText("Merge…")
+			.setCta()
+			.onClick(() => this.renderMerge(mergeWithMarkers(rows, "Note", "Plane")));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		this.onDone(this.resolution);
+	}
+
+	private renderMerge(initial: string): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("p", {
+			text: "Edit the merged text, then save it to both the note and plane.",
+			cls: "plane-hub__muted",
+		});
+		const editor = new TextAreaComponent(contentEl);
+		editor.inputEl.rows = 16;
+		editor.inputEl.addClass("plane-input");
+		editor.setValue(initial);
+
+		const buttons = contentEl.createDiv({ cls: "plane-hub__row" });
+		new ButtonComponent(buttons)
+			.setButtonText("Save merge")
+			.setCta()
+			.onClick(() => this.finish({ kind: "merge", text: editor.getValue() }));
+		new ButtonComponent(buttons).setButtonText("Cancel").onClick(() => this.close());
+	}
+
+	private finish(resolution: ConflictResolution): void {
+		this.resolution = resolution;
+		this.close();
+	}
+}
+
+export function promptConflict(app: App, title: string, local: string, remote: string): Promise<ConflictResolution | null> {
+	return new Promise((resolve) => new ConflictModal(app, title, local, remote, resolve).open());
+}
@@ -0,0 +1,84 @@
+import { ButtonComponent, DropdownComponent, Modal, Notice, Setting } from "obsidian";
+import type PlaneProjectPlugin from "../main";
+import type { NotePlan } from "../noteSync";
+import { describeError } from "../errors";
+
+// longer lists are cut off in the summary
+const PREVIEW_LIMIT = 15;
+
+/** Generates or refreshes notes for a whole project or one module, after a dry-run summary. */
+export class GenerateNotesModal extends Modal {
+	constructor(
+		private readonly plugin: PlaneProjectPlugin,
+		private readonly projectId: string,
+		private moduleId = "",
+	) {
+		super(plugin.app);
+	}
+
+	onOpen(): void {
+		this.titleEl.setText(`Generate notes for ${this.plugin.projectLabel(this.projectId)}`);
+		const data = this.plugin.getProjectDataOrEmpty(this.projectId);
+		new Setting(this.contentEl).setName("Scope").addDropdown((dropdown: DropdownComponent) => {
+			dropdown.addOption("", "Whole project");
+			for (const mod of data.modules) dropdown.addOption(mod.id, mod.name);
+			dropdown.setValue(this.moduleId).onChange((value) => {
+				this.moduleId = value;
+				void this.refresh();
+			});
+		});
+		this.contentEl.createDiv({ cls: "plane-generate__summary" });
+		void this.refresh();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async refresh(): Promise<void> {
+		const summary = this.contentEl.querySelector<HTMLElement>(".plane-generate__summary");
+		if (!summary) return;
+		summary.empty();
+		summary.createSpan({ text: "Checking notes…", cls: "plane-hub__muted" });
+		const items = this.plugin
+			.getProjectDataOrEmpty(this.projectId)
+			.workItems.filter((w) => !this.moduleId || (w.module ?? w.module_id) === this.moduleId);
+		this.renderSummary(summary, await this.plugin.noteSync.planNotes(items));
+	}
+
+	private renderSummary(summary: HTMLElement, plan: NotePlan): void {
+		summary.empty();
+		this.renderSection(summary, "Create", plan.create.map((item) => this.plugin.noteSync.notePath(item)));
+		this.renderSection(summary, "Move", plan.move.map(({ file, to }) => `${file.path} → ${to}/`));
+		this.renderSection(summary, "Update from plane", plan.update.map(({ file }) => file.path));
+		this.renderSection(summary, "Skip (edited in both places)", plan.conflicts.map((file) => file.path));
+
+		const total = plan.create.length + plan.move.length + plan.update.length;
+		if (!total) summary.createEl("p", { text: "All notes are up to date.", cls: "plane-hub__muted" });
+
+		const buttons = summary.createDiv({ cls: "plane-hub__row" });
+		const apply = new ButtonComponent(buttons).setButtonText("Generate").setCta().setDisabled(!total);
+		apply.onClick(async () => {
+			apply.setDisabled(true).setButtonText("Generating…");
+			try {
+				await this.plugin.noteSync.applyNotePlan(plan);
+				new Notice(`Plane notes: ${plan.create.length} created, ${plan.move.length} moved, ${plan.update.length} updated`);
+				this.close();
+			} catch (error) {
+				new Notice(`Failed to generate notes: ${describeError(error)}`);
+				await this.refresh();
+			}
+		});
+		new ButtonComponent(buttons).setButtonText("Cancel").onClick(() => this.close());
+	}
+
+	private renderSection(container: HTMLElement, title: string, entries: string[]): void {
+		if (!entries.length) return;
+		container.createEl("h4", { text: `${title} (${entries.length})` });
+		const list = container.createEl("ul", { cls: "plane-generate__list" });
+		for (const entry of entries.slice(0, PREVIEW_LIMIT)) list.createEl("li", { text: entry });
+		if (entries.length > PREVIEW_LIMIT) {
+			list.createEl("li", { text: `…and ${entries.length - PREVIEW_LIMIT} more`, cls: "plane-hub__muted" });
+		}
+	}
+}
@@ -9,10 +9,35 @@ import {
 	TextComponent,
 } from "obsidian";
 import type PlaneProjectPlugin from "../main";
-import type { PlaneModule, PlaneWorkItem, PlaneState } from "../types";
+import { attachmentName, formatSize } from "../attachments";
+import { describeError } from "../errors";
+import { htmlToMarkdown } from "../markdown";
+import { commentAuthor } from "../noteSync";
+import { isTempId } from "../outbox";
+import type { PlaneCycle, PlaneModule, PlaneWorkItem, PlaneState, RelationType } from "../types";
+import type { RemovalKind } from "./removeModal";
+import { wouldCreateCycle } from "../hierarchy";
+import { RELATION_LABELS, RELATION_TYPES } from "../relations";
+import {
+	memberName,
+	renderAssignees,
+	renderBlocked,
+	renderCardMenu,
+	renderChildProgress,
+	renderLabelPills,
+	renderMember,
+	renderSubIssues,
+} from "./cards";
+import { makeCardDraggable, makeColumnDropTarget, sortBySortOrder } from "./kanbanDrag";
 
 export class PlaneHubModal extends Modal {
 	private moduleFilter: string | undefined;
+	// undefined until the user picks one, so the current cycle can be the default
+	private cycleFilter: string | undefined;
+	private labelFilter: string | undefined;
+	private myWork = false;
+	private readonly expanded = new Set<string>();
+	private showArchived = false;
 
 	constructor(app: App, private readonly plugin: PlaneProjectPlugin) {
 		super(app);
@@ -31,12 +56,21 @@ export class PlaneHubModal extends Modal {
 		header.createEl("h2", { text: "Plane workspace" });
 
 		const right = header.createDiv({ cls: "plane-hub__actions" });
+		if (this.plugin.settings.profiles.length > 1) {
+			const profileSelect = new DropdownComponent(right);
+			for (const profile of this.plugin.settings.profiles) profileSelect.addOption(profile.id, profile.name);
+			profileSelect.setValue(this.plugin.connection.id);
+			profileSelect.onChange(async (value) => {
+				await this.plugin.switchProfile(value);
+				this.render();
+			});
+		}
 		const projectSelect = new DropdownComponent(right);
 		projectSelect.addOption("", "Select project");
 		for (const proj of this.plugin.availableProjects) {
 			projectSelect.addOption(proj.id, this.plugin.projectLabel(proj.id));
 		}
-		projectSelect.setValue(this.plugin.cache.selectedProjectId ?? this.plugin.settings.defaultProjectId ?? "");
+		projectSelect.setValue(this.plugin.cache.selectedProjectId ?? this.plugin.connection.defaultProjectId ?? "");
 		projectSelect.onChange(async (value) => {
 			if (!value) return;
 			this.plugin.cache.selectedProjectId = value;
@@ -62,9 +96,19 @@ export class PlaneHubModal extends Modal {
 		});
 		right.appendChild(last);
 
+		const queued = this.plugin.outbox.entries.length;
+		if (queued) {
+			new ButtonComponent(right)
+				.setButtonText(`${queued} unsynced`)
+				.setTooltip("Show changes waiting to reach plane")
+				.onClick(() => this.plugin.openOutbox());
+		}
+
 		this.renderFilters(contentEl);
 		this.renderModulesSection(contentEl);
+		this.renderCyclesSection(contentEl);
 		this.renderKanbanSection(contentEl);
+		this.renderArchivedSection(contentEl);
 	}
 
 	private renderFilters(container: HTMLElement): void {
@@ -80,6 +124,43 @@ export class PlaneHubModal extends Modal {
 			this.moduleFilter = value || undefined;
 			this.render();
 		});
+
+		row.createEl("span", { text: "Cycle", cls: "plane-hub__muted" });
+		const cycleDropdown = new DropdownComponent(row);
+		cycleDropdown.addOption("", "All cycles");
+		for (const cycle of this.currentCache().cycles) {
+			cycleDropdown.addOption(cycle.id, cycle.name);
+		}
+		cycleDropdown.setValue(this.activeCycle() ?? "");
+		cycleDropdown.onChange((value) => {
+			this.cycleFilter = value;
+			this.render();
+		});
+
+		row.createEl("span", { text: "Label", cls: "plane-hub__muted" });
+		const labelDropdown = new DropdownComponent(row);
+		labelDropdown.addOption("", "All labels");
+		for (const label of this.currentCache().labels) {
+			labelDropdown.addOption(label.id, label.name);
+		}
+		labelDropdown.setValue(this.labelFilter ?? "");
+		labelDropdown.onChange((value) => {
+			this.labelFilter = value || undefined;
+			this.render();
+		});
+
+		const mine = new ButtonComponent(row);
+		mine.setButtonText("My work").onClick(() => {
+			this.myWork = !this.myWork;
+			this.render();
+		});
+		if (this.myWork) mine.setCta();
+		if (!this.plugin.cache.me) mine.setDisabled(true).setTooltip("Sync once to identify your plane user");
+	}
+
+	private activeCycle(): string | undefined {
+		if (this.cycleFilter !== undefined) return this.cycleFilter || undefined;
+		return this.plugin.currentCycle()?.id;
 	}
 
 	private renderModulesSection(container: HTMLElement): void {
@@ -88,6 +169,7 @@ export class PlaneHubModal extends Modal {
 		titleRow.createEl("h3", { text: "Modules" });
 		const newBtn = new ButtonComponent(titleRow);
 		newBtn.setButtonText("New module").onClick(() => this.openModuleForm());
+		new ButtonComponent(titleRow).setButtonText("Timeline").onClick(() => void this.plugin.openTimeline());
 
 		if (!this.currentCache().modules.length) {
 			section.createSpan({ text: "No modules yet. Sync or create one." });
@@ -100,9 +182,52 @@ export class PlaneHubModal extends Modal {
 			card.createEl("div", { text: mod.name, cls: "plane-hub__card-title" });
 			const meta = card.createDiv({ cls: "plane-hub__card-meta" });
 			if (mod.status) meta.createSpan({ text: mod.status });
-			if (mod.target_date) meta.createSpan({ text: `Target ${mod.target_date}` });
+			if (mod.start_date || mod.target_date) {
+				meta.createSpan({ text: `${mod.start_date?.slice(0, 10) ?? "?"} → ${mod.target_date?.slice(0, 10) ?? "?"}` });
+			}
+			if (mod.lead) {
+				meta.createSpan({ text: "Lead" });
+				renderMember(meta, this.member(mod.lead), this.plugin.connection.apiBaseUrl);
+			}
+			if (mod.members?.length) {
+				const names = mod.members.map((id) => memberName(this.member(id)));
+				meta.createSpan({ text: `${names.length} member${names.length === 1 ? "" : "s"}`, attr: { title: names.join(", ") } });
+			}
+			const actions = card.createDiv({ cls: "plane-hub__row" });
+			new ButtonComponent(actions).setButtonText("Edit").onClick(() => this.openModuleForm(mod));
+			renderCardMenu(actions, [
+				{ title: "Generate notes", icon: "files", onClick: () => void this.plugin.openGenerateNotes(mod.id) },
+				{ title: "Archive", icon: "archive", onClick: () => this.removeModule(mod, "archive") },
+				{ title: "Delete", icon: "trash", warning: true, onClick: () => this.removeModule(mod, "delete") },
+			]);
+		}
+	}
+
+	private renderCyclesSection(container: HTMLElement): void {
+		const section = container.createDiv({ cls: "plane-hub__section" });
+		const titleRow = section.createDiv({ cls: "plane-hub__row" });
+		titleRow.createEl("h3", { text: "Cycles" });
+		const newBtn = new ButtonComponent(titleRow);
+		newBtn.setButtonText("New cycle").onClick(() => this.openCycleForm());
+
+		const cycles = this.currentCache().cycles;
+		if (!cycles.length) {
+			section.createSpan({ text: "No cycles yet. Sync or create one." });
+			return;
+		}
+
+		const current = this.plugin.currentCycle()?.id;
+		const list = section.createDiv({ cls: "plane-hub__list" });
+		for (const cycle of cycles) {
+			const card = list.createDiv({ cls: "plane-hub__card" });
+			card.createEl("div", { text: cycle.name, cls: "plane-hub__card-title" });
+			const meta = card.createDiv({ cls: "plane-hub__card-meta" });
+			if (cycle.id === current) meta.createSpan({ text: "Current", cls: "plane-hub__pill" });
+			if (cycle.start_date || cycle.end_date) {
+				meta.createSpan({ text: `${cycle.start_date?.slice(0, 10) ?? "?"} → ${cycle.end_date?.slice(0, 10) ?? "?"}` });
+			}
 			const action = new ButtonComponent(card);
-			action.setButtonText("Edit").onClick(() => this.openModuleForm(mod));
+			action.setButtonText("Edit").onClick(() => this.openCycleForm(cycle));
 		}
 	}
 
@@ -126,18 +251,38 @@ export class PlaneHubModal extends Modal {
 			const head = colEl.createDiv({ cls: "plane-board__column-head" });
 			head.createEl("span", { text: column.title });
 			head.createEl("span", { text: `${column.items.length}`, cls: "plane-hub__muted" });
+			if (column.stateId) {
+				const stateId = column.stateId;
+				makeColumnDropTarget(colEl, column.items, (itemId, sortOrder) =>
+					this.onCardDrop(itemId, stateId, sortOrder),
+				);
+			}
 
 			for (const item of column.items) {
 				const card = colEl.createDiv({ cls: "plane-board__card" });
+				makeCardDraggable(card, item);
 				card.createEl("div", { text: item.name, cls: "plane-hub__card-title" });
 				const meta = card.createDiv({ cls: "plane-hub__card-meta" });
 				if (item.identifier) meta.createSpan({ text: item.identifier, cls: "plane-hub__pill" });
 				if (item.priority) meta.createSpan({ text: item.priority });
 				const modId = item.module ?? item.module_id ?? null;
 				if (modId) meta.createSpan({ text: this.moduleName(modId) });
+				renderLabelPills(meta, item.labels, this.currentCache().labels);
+				renderAssignees(meta, item.assignees, this.currentCache().members, this.plugin.connection.apiBaseUrl);
+				const children = this.plugin.childrenOf(item.id);
+				renderChildProgress(meta, children, this.currentCache().states);
+				renderBlocked(meta, item, this.currentCache().workItems, this.currentCache().states);
+				renderSubIssues(card, item, children, this.currentCache().states, this.expanded);
 
 				const actions = card.createDiv({ cls: "plane-hub__row" });
 				new ButtonComponent(actions).setButtonText("Edit").onClick(() => this.openWorkItemForm(item));
+				new ButtonComponent(actions)
+					.setButtonText("Sub-issue")
+					.onClick(() => this.openWorkItemForm(undefined, { parent: item.id, module: item.module }));
+				renderCardMenu(actions, [
+					{ title: "Archive", icon: "archive", onClick: () => this.removeWorkItem(item, "archive") },
+					{ title: "Delete", icon: "trash", warning: true, onClick: () => this.removeWorkItem(item, "delete") },
+				]);
 				new ButtonComponent(actions)
 					.setButtonText("Note")
 					.onClick(() => {
@@ -151,16 +296,92 @@ export class PlaneHubModal extends Modal {
 		}
 	}
 
+	private removeWorkItem(item: PlaneWorkItem, kind: RemovalKind): void {
+		void this.plugin.confirmRemoveWorkItem(item, kind).then((removed) => {
+			if (removed) this.render();
+		});
+	}
+
+	private removeModule(mod: PlaneModule, kind: RemovalKind): void {
+		void this.plugin.confirmRemoveModule(mod, kind).then((removed) => {
+			if (removed) this.render();
+		});
+	}
+
+	/** Archived records are fetched on demand; they are not part of the cache. */
+	private renderArchivedSection(container: HTMLElement): void {
+		const section = container.createDiv({ cls: "plane-hub__section" });
+		const titleRow = section.createDiv({ cls: "plane-hub__row" });
+		titleRow.createEl("h3", { text: "Archived" });
+		new ButtonComponent(titleRow).setButtonText(this.showArchived ? "Hide" : "Show").onClick(() => {
+			this.showArchived = !this.showArchived;
+			this.render();
+		});
+		if (!this.showArchived) return;
+
+		const projectId = this.plugin.cache.selectedProjectId;
+		const list = section.createDiv({ cls: "plane-hub__list" });
+		list.createSpan({ text: "Loading archived records…", cls: "plane-hub__muted" });
+		void Promise.all([
+			this.plugin.client.listArchivedModules(projectId),
+			this.plugin.client.listArchivedWorkItems(projectId),
+		])
+			.then(([modules, items]) => {
+				list.empty();
+				if (!modules.length && !items.length) {
+					list.createSpan({ text: "Nothing archived.", cls: "plane-hub__muted" });
+					return;
+				}
+				for (const mod of modules) {
+					this.renderArchivedCard(list, `Module: ${mod.name}`, () => this.plugin.restoreModule(mod));
+				}
+				for (const item of items) {
+					const title = `${item.identifier ? `${item.identifier} ` : ""}${item.name}`;
+					this.renderArchivedCard(list, title, () => this.plugin.restoreWorkItem(this.plugin.normalizeWorkItem(item)));
+				}
+			})
+			.catch((error) => {
+				list.empty();
+				list.createSpan({ text: describeError(error), cls: "plane-hub__muted" });
+			});
+	}
+
+	private renderArchivedCard(list: HTMLElement, title: string, restore: () => Promise<unknown>): void {
+		const card = list.createDiv({ cls: "plane-hub__card" });
+		card.createEl("div", { text: title, cls: "plane-hub__card-title" });
+		const button = new ButtonComponent(card).setButtonText("Restore");
+		button.onClick(() => {
+			button.setDisabled(true);
+			void restore()
+				.then(() => {
+					new Notice(`Restored ${title}`);
+					this.render();
+				})
+				.catch((error) => {
+					new Notice(describeError(error));
+					button.setDisabled(false);
+				});
+		});
+	}
+
+	private onCardDrop(itemId: string, stateId: string, sortOrder: number): void {
+		const item = this.currentCache().workItems.find((w) => w.id === itemId);
+		if (!item) return;
+		// moveWorkItem updates the cache before awaiting Plane, so render right away and again once settled
+		const pending = this.plugin.moveWorkItem(item, stateId, sortOrder);
+		this.render();
+		void pending.then(() => this.render());
+	}
+
 	private buildColumns(items: PlaneWorkItem[], states: PlaneState[]) {
-		const stateMap = new Map<string, PlaneState>();
-		for (const s of states) stateMap.set(s.id, s);
-		const grouped = new Map<string, { title: string; items: PlaneWorkItem[] }>();
+		const grouped = new Map<string, { title: string; items: PlaneWorkItem[]; stateId?: string }>();
+		// every state gets a column so cards can be dropped into empty ones
+		const ordered = [...states].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+		for (const s of ordered) grouped.set(s.id, { title: s.name, items: [], stateId: s.id });
 
-		for (const item of items) {
+		for (const item of sortBySortOrder(items)) {
 			const state = item.state_id ?? item.state ?? "unspecified";
-			const stateInfo = stateMap.get(state);
-			const title = stateInfo?.name ?? "Unspecified";
-			if (!grouped.has(state)) grouped.set(state, { title, items: [] });
+			if (!grouped.has(state)) grouped.set(state, { title: "Unspecified", items: [] });
 			grouped.get(state)!.items.push(item);
 		}
 
@@ -169,9 +390,13 @@ export class PlaneHubModal extends Modal {
 
 	private filteredItems(): PlaneWorkItem[] {
 		const data = this.currentCache();
+		const cycle = this.activeCycle();
 		return data.workItems.filter((item) => {
 			const modId = item.module ?? item.module_id ?? null;
 			if (this.moduleFilter && modId !== this.moduleFilter) return false;
+			if (cycle && item.cycle !== cycle) return false;
+			if (this.labelFilter && !(item.labels ?? []).includes(this.labelFilter)) return false;
+			if (this.myWork && !this.plugin.isAssignedToMe(item)) return false;
 			return true;
 		});
 	}
@@ -181,9 +406,14 @@ export class PlaneHubModal extends Modal {
 		return mod?.name ?? id;
 	}
 
-	private openWorkItemForm(item?: PlaneWorkItem): void {
+	private member(id: string) {
+		return this.currentCache().members.find((m) => m.id === id);
+	}
+
+	/** Opens the create/edit form; `defaults` pre-fills a new item (e.g. the parent of a sub-issue). */
+	openWorkItemForm(item?: PlaneWorkItem, defaults: Partial<PlaneWorkItem> = {}): void {
 		const modal = new Modal(this.app);
-		modal.titleEl.setText(item ? "Edit work item" : "New work item");
+		modal.titleEl.setText(item ? "Edit work item" : defaults.parent ? "New sub-issue" : "New work item");
 		const name = new TextComponent(modal.contentEl);
 		name.inputEl.addClass("plane-input");
 		name.setPlaceholder("Title").setValue(item?.name ?? "");
@@ -201,10 +431,57 @@ export class PlaneHubModal extends Modal {
 				for (const mod of this.currentCache().modules) {
 					dropdown.addOption(mod.id, mod.name);
 				}
-				dropdown.setValue(item?.module ?? this.moduleFilter ?? "");
+				dropdown.setValue(item?.module ?? defaults.module ?? this.moduleFilter ?? "");
 				moduleDropdown = dropdown;
 			});
 
+		let parentDropdown: DropdownComponent | undefined;
+		new Setting(modal.contentEl)
+			.setName("Parent")
+			.addDropdown((dropdown: DropdownComponent) => {
+				dropdown.addOption("", "None");
+				const items = this.currentCache().workItems;
+				for (const candidate of items) {
+					if (item && wouldCreateCycle(items, item.id, candidate.id)) continue;
+					dropdown.addOption(candidate.id, `${candidate.identifier ? `${candidate.identifier} ` : ""}${candidate.name}`);
+				}
+				dropdown.setValue(item?.parent ?? defaults.parent ?? "");
+				parentDropdown = dropdown;
+			});
+
+		let cycleDropdown: DropdownComponent | undefined;
+		new Setting(modal.contentEl)
+			.setName("Cycle")
+			.addDropdown((dropdown: DropdownComponent) => {
+				dropdown.addOption("", "None");
+				for (const cycle of this.currentCache().cycles) {
+					dropdown.addOption(cycle.id, cycle.name);
+				}
+				dropdown.setValue(item ? (item.cycle ?? "") : (this.activeCycle() ?? ""));
+				cycleDropdown = dropdown;
+			});
+
+		const selectedLabels = new Set(item?.labels ?? []);
+		this.renderLabelPicker(modal.contentEl, selectedLabels);
+
+		// items created while "My work" is on start out assigned to the token's user
+		const selectedAssignees = new Set(
+			item?.assignees ?? (this.myWork && this.plugin.cache.me ? [this.plugin.cache.me.id] : []),
+		);
+		this.renderAssigneePicker(modal.contentEl, selectedAssignees);
+
+		let stateDropdown: DropdownComponent | undefined;
+		new Setting(modal.contentEl)
+			.setName("State")
+			.addDropdown((dropdown: DropdownComponent) => {
+				dropdown.addOption("", "Default");
+				for (const state of this.currentCache().states) {
+					dropdown.addOption(state.id, state.name);
+				}
+				dropdown.setValue(item?.state_id ?? item?.state ?? "");
+				stateDropdown = dropdown;
+			});
+
 			let priorityDropdown: DropdownComponent | undefined;
 		new Setting(modal.contentEl)
 			.setName("Priority")
@@ -240,26 +517,273 @@ export class PlaneHubModal extends Modal {
 						name: nameValue,
 						description_html: description.getValue(),
 						module: moduleDropdown?.getValue() || null,
+						state: stateDropdown?.getValue() || null,
+						state_id: stateDropdown?.getValue() || null,
 						priority: priorityDropdown?.getValue() || null,
+						labels: Array.from(selectedLabels),
+						assignees: Array.from(selectedAssignees),
+						parent: parentDropdown?.getValue() || null,
 						project_id: this.plugin.cache.selectedProjectId,
 					},
 					item?.id,
 					this.plugin.cache.selectedProjectId,
 				)
-				.then(() => {
+				.then(async (saved) => {
+					// cycle membership lives on its own endpoint, which needs a real Plane id
+					const cycleId = cycleDropdown?.getValue() || null;
+					if (!isTempId(saved.id)) await this.plugin.setWorkItemCycle(saved, cycleId);
 					new Notice("Saved");
 					modal.close();
 					this.render();
 				})
 				.catch((error) => {
-					new Notice(String(error));
+					new Notice(describeError(error));
 					save.setDisabled(false).setButtonText("Save");
 				});
 		});
 
+		if (item && !isTempId(item.id)) {
+			this.renderRelations(modal.contentEl, item);
+			this.renderAttachments(modal.contentEl, item);
+			this.renderCommentThread(modal.contentEl, item);
+		}
+
 		modal.open();
 	}
 
+	/** Toggleable label chips plus an inline "new label" field; edits `selected` in place. */
+	private renderLabelPicker(container: HTMLElement, selected: Set<string>): void {
+		const setting = new Setting(container).setName("Labels");
+		const chips = setting.controlEl.createDiv({ cls: "plane-label-picker" });
+
+		const renderChips = () => {
+			chips.empty();
+			for (const label of this.currentCache().labels) {
+				const chip = chips.createSpan({ text: label.name, cls: "plane-label plane-label--toggle" });
+				if (label.color) chip.style.setProperty("--plane-label-color", label.color);
+				chip.toggleClass("is-selected", selected.has(label.id));
+				chip.addEventListener("click", () => {
+					if (selected.has(label.id)) selected.delete(label.id);
+					else selected.add(label.id);
+					chip.toggleClass("is-selected", selected.has(label.id));
+				});
+			}
+		};
+		renderChips();
+
+		const create = setting.controlEl.createDiv({ cls: "plane-hub__row" });
+		const newName = new TextComponent(create).setPlaceholder("New label");
+		new ButtonComponent(create).setButtonText("Add").onClick(() => {
+			const labelName = newName.getValue().trim();
+			if (!labelName) return;
+			void this.plugin
+				.createLabel(labelName)
+				.then((label) => {
+					selected.add(label.id);
+					newName.setValue("");
+					renderChips();
+				})
+				.catch((error) => {
+					new Notice(describeError(error));
+				});
+		});
+	}
+
+	/** Toggleable member chips; edits `selected` in place. */
+	private renderAssigneePicker(container: HTMLElement, selected: Set<string>): void {
+		const setting = new Setting(container).setName("Assignees");
+		const chips = setting.controlEl.createDiv({ cls: "plane-label-picker" });
+		const members = this.currentCache().members;
+		if (!members.length) {
+			chips.createSpan({ text: "Sync to load project members.", cls: "plane-hub__muted" });
+			return;
+		}
+		for (const member of members) {
+			const chip = renderMember(chips, member, this.plugin.connection.apiBaseUrl);
+			chip.addClass("plane-member--toggle");
+			chip.toggleClass("is-selected", selected.has(member.id));
+			chip.addEventListener("click", () => {
+				if (selected.has(member.id)) selected.delete(member.id);
+				else selected.add(member.id);
+				chip.toggleClass("is-selected", selected.has(member.id));
+			});
+		}
+	}
+
+	/** Relations are saved right away (they have their own endpoint), not with the form. */
+	private renderRelations(container: HTMLElement, item: PlaneWorkItem): void {
+		const section = container.createDiv({ cls: "plane-hub__section" });
+		section.createEl("h3", { text: "Relations" });
+		const list = section.createDiv({ cls: "plane-hub__list" });
+
+		const itemLabel = (id: string) => {
+			const other = this.currentCache().workItems.find((w) => w.id === id);
+			if (!other) return id;
+			return `${other.identifier ? `${other.identifier} ` : ""}${other.name}`;
+		};
+		const renderList = () => {
+			list.empty();
+			const current = this.currentCache().workItems.find((w) => w.id === item.id)?.relations;
+			const rows = RELATION_TYPES.flatMap((type) => (current?.[type] ?? []).map((id) => ({ type, id })));
+			if (!rows.length) {
+				list.createSpan({ text: "No relations.", cls: "plane-hub__muted" });
+				return;
+			}
+			for (const { type, id } of rows) {
+				const row = list.createDiv({ cls: "plane-relations__item" });
+				row.createSpan({ text: RELATION_LABELS[type], cls: "plane-hub__muted" });
+				row.createSpan({ text: itemLabel(id) });
+				const remove = new ButtonComponent(row).setButtonText("Remove");
+				remove.onClick(() => {
+					remove.setDisabled(true);
+					void this.plugin
+						.removeRelation(item, id)
+						.then(() => {
+							renderList();
+						})
+						.catch((error) => {
+							new Notice(describeError(error));
+							remove.setDisabled(false);
+						});
+				});
+			}
+		};
+		renderList();
+		// relations only sync with deltas (if at all), so fetch the current ones for the form
+		void this.plugin
+			.refreshRelations(item.project_id, [item.id])
+			.then(() => renderList())
+			.catch(() => {
+				// offline: the cached relations are all there is
+			});
+
+		const add = section.createDiv({ cls: "plane-hub__row" });
+		const typeDropdown = new DropdownComponent(add);
+		for (const type of RELATION_TYPES) typeDropdown.addOption(type, RELATION_LABELS[type]);
+		const targetDropdown = new DropdownComponent(add);
+		targetDropdown.addOption("", "Work item…");
+		for (const other of this.currentCache().workItems) {
+			if (other.id === item.id || isTempId(other.id)) continue;
+			targetDropdown.addOption(other.id, itemLabel(other.id));
+		}
+		const addButton = new ButtonComponent(add).setButtonText("Add relation");
+		addButton.onClick(() => {
+			const target = targetDropdown.getValue();
+			if (!target) return;
+			addButton.setDisabled(true);
+			void this.plugin
+				.addRelation(item, typeDropdown.getValue() as RelationType, target)
+				.then(() => {
+					targetDropdown.setValue("");
+					renderList();
+				})
+				.catch((error) => {
+					new Notice(describeError(error));
+				})
+				.finally(() => {
+					addButton.setDisabled(false);
+				});
+		});
+	}
+
+	private renderAttachments(container: HTMLElement, item: PlaneWorkItem): void {
+		const section = container.createDiv({ cls: "plane-hub__section" });
+		section.createEl("h3", { text: "Attachments" });
+		const list = section.createDiv({ cls: "plane-hub__list" });
+		list.createSpan({ text: "Loading attachments…", cls: "plane-hub__muted" });
+
+		void this.plugin.client
+			.listAttachments(item.id, item.project_id)
+			.then((attachments) => {
+				list.empty();
+				if (!attachments.length) {
+					list.createSpan({ text: "No attachments.", cls: "plane-hub__muted" });
+					return;
+				}
+				for (const attachment of attachments) {
+					const row = list.createDiv({ cls: "plane-relations__item" });
+					row.createSpan({ text: attachmentName(attachment) });
+					row.createSpan({ text: formatSize(attachment.attributes?.size), cls: "plane-hub__muted" });
+					const download = new ButtonComponent(row).setButtonText("Save to vault");
+					download.onClick(() => {
+						download.setDisabled(true).setButtonText("Saving…");
+						void this.plugin
+							.downloadAttachment(item, attachment)
+							.then((file) => {
+								new Notice(`Saved ${file.path}`);
+								download.setButtonText("Saved");
+							})
+							.catch((error) => {
+								new Notice(describeError(error));
+								download.setDisabled(false).setButtonText("Save to vault");
+							});
+					});
+				}
+			})
+			.catch((error) => {
+				list.empty();
+				list.createSpan({ text: describeError(error), cls: "plane-hub__muted" });
+			});
+	}
+
+	private renderCommentThread(container: HTMLElement, item: PlaneWorkItem): void {
+		const section = container.createDiv({ cls: "plane-hub__section plane-comments" });
+		section.createEl("h3", { text: "Comments" });
+		const list = section.createDiv({ cls: "plane-comments__list" });
+
+		const load = async () => {
+			list.empty();
+			list.createSpan({ text: "Loading comments…", cls: "plane-hub__muted" });
+			try {
+				const comments = await this.plugin.client.listComments(item.id, item.project_id);
+				list.empty();
+				if (!comments.length) {
+					list.createSpan({ text: "No comments yet.", cls: "plane-hub__muted" });
+					return;
+				}
+				const sorted = [...comments].sort((a, b) => (a.created_at ?? "").localeCompare(b.created_at ?? ""));
+				for (const comment of sorted) {
+					const card = list.createDiv({ cls: "plane-comments__item" });
+					const meta = card.createDiv({ cls: "plane-hub__card-meta" });
+					meta.createSpan({ text: commentAuthor(comment), cls: "plane-hub__card-title" });
+					if (comment.created_at) meta.createSpan({ text: new Date(comment.created_at).toLocaleString() });
+					card.createDiv({
+						text: comment.comment_html ? htmlToMarkdown(comment.comment_html) : (comment.comment_stripped ?? ""),
+						cls: "plane-comments__body",
+					});
+				}
+			} catch (error) {
+				list.empty();
+				list.createSpan({ text: describeError(error), cls: "plane-hub__muted" });
+			}
+		};
+
+		const input = new TextAreaComponent(section);
+		input.inputEl.rows = 3;
+		input.inputEl.addClass("plane-input");
+		input.setPlaceholder("Add a comment (Markdown)");
+		const post = new ButtonComponent(section);
+		post.setButtonText("Add comment").onClick(() => {
+			const text = input.getValue().trim();
+			if (!text) return;
+			post.setDisabled(true).setButtonText("Posting…");
+			void this.plugin
+				.addComment(item.id, text, item.project_id)
+				.then(() => {
+					input.setValue("");
+					return load();
+				})
+				.catch((error) => {
+					new Notice(describeError(error));
+				})
+				.finally(() => {
+					post.setDisabled(false).setButtonText("Add comment");
+				});
+		});
+
+		void load();
+	}
+
 	private openModuleForm(mod?: PlaneModule): void {
 		const modal = new Modal(this.app);
 		modal.titleEl.setText(mod ? "Edit module" : "New module");
@@ -272,6 +796,19 @@ export class PlaneHubModal extends Modal {
 		status.inputEl.addClass("plane-input");
 			status.setPlaceholder("Status (planned or active)").setValue(mod?.status ?? "");
 
+		let start: TextComponent | undefined;
+		new Setting(modal.contentEl).setName("Start date").addText((text) => {
+			text.inputEl.type = "date";
+			text.setValue(mod?.start_date?.slice(0, 10) ?? "");
+			start = text;
+		});
+		let target: TextComponent | undefined;
+		new Setting(modal.contentEl).setName("Target date").addText((text) => {
+			text.inputEl.type = "date";
+			text.setValue(mod?.target_date?.slice(0, 10) ?? "");
+			target = text;
+		});
+
 		const description = new TextAreaComponent(modal.contentEl);
 		description.inputEl.rows = 4;
 		description.inputEl.addClass("plane-input");
@@ -293,6 +830,8 @@ export class PlaneHubModal extends Modal {
 						name: nameValue,
 						status: status.getValue().trim() || null,
 						description: description.getValue(),
+						start_date: start?.getValue() || null,
+						target_date: target?.getValue() || null,
 					},
 					mod?.id,
 					this.plugin.cache.selectedProjectId,
@@ -303,7 +842,68 @@ export class PlaneHubModal extends Modal {
 					this.render();
 				})
 				.catch((error) => {
-					new Notice(String(error));
+					new Notice(describeError(error));
+					save.setDisabled(false).setButtonText("Save");
+				});
+		});
+
+		modal.open();
+	}
+
+	private openCycleForm(cycle?: PlaneCycle): void {
+		const modal = new Modal(this.app);
+		modal.titleEl.setText(cycle ? "Edit cycle" : "New cycle");
+
+		const name = new TextComponent(modal.contentEl);
+		name.inputEl.addClass("plane-input");
+		name.setPlaceholder("Cycle name").setValue(cycle?.name ?? "");
+
+		let start: TextComponent | undefined;
+		new Setting(modal.contentEl).setName("Start date").addText((text) => {
+			text.inputEl.type = "date";
+			text.setValue(cycle?.start_date?.slice(0, 10) ?? "");
+			start = text;
+		});
+		let end: TextComponent | undefined;
+		new Setting(modal.contentEl).setName("End date").addText((text) => {
+			text.inputEl.type = "date";
+			text.setValue(cycle?.end_date?.slice(0, 10) ?? "");
+			end = text;
+		});
+
+		const description = new TextAreaComponent(modal.contentEl);
+		description.inputEl.rows = 4;
+		description.inputEl.addClass("plane-input");
+		description.setPlaceholder("Description").setValue(cycle?.description ?? "");
+
+		const buttons = modal.contentEl.createDiv({ cls: "plane-hub__row" });
+		const save = new ButtonComponent(buttons);
+		save.setButtonText(cycle ? "Save changes" : "Create cycle");
+		save.onClick(() => {
+			const nameValue = name.getValue().trim();
+			if (!nameValue) {
+				new Notice("Name is required");
+				return;
+			}
+			save.setDisabled(true).setButtonText("Saving…");
+			void this.plugin
+				.upsertCycle(
+					{
+						name: nameValue,
+						description: description.getValue(),
+						start_date: start?.getValue() || null,
+						end_date: end?.getValue() || null,
+					},
+					cycle?.id,
+					this.plugin.cache.selectedProjectId,
+				)
+				.then(() => {
+					new Notice("Saved");
+					modal.close();
+					this.render();
+				})
+				.catch((error) => {
+					new Notice(describeError(error));
 					save.setDisabled(false).setButtonText("Save");
 				});
 		});
@@ -0,0 +1,71 @@
+import type { PlaneWorkItem } from "../types";
+
+const DRAG_MIME = "application/x-plane-work-item";
+// Plane spaces new items 65535 apart; reuse the same gap when dropping at either end.
+const SORT_STEP = 65535;
+
+export function makeCardDraggable(card: HTMLElement, item: PlaneWorkItem): void {
+	card.draggable = true;
+	card.dataset.planeItemId = item.id;
+	card.addEventListener("dragstart", (event) => {
+		if (!event.dataTransfer) return;
+		event.dataTransfer.setData(DRAG_MIME, item.id);
+		event.dataTransfer.effectAllowed = "move";
+		card.addClass("is-dragging");
+	});
+	card.addEventListener("dragend", () => card.removeClass("is-dragging"));
+}
+
+/**
+ * Turns a kanban column into a drop zone. `items` must be in the order the cards
+ * are rendered so the drop position can be translated into a Plane `sort_order`.
+ */
+export function makeColumnDropTarget(
+	column: HTMLElement,
+	items: PlaneWorkItem[],
+	onDrop: (itemId: string, sortOrder: number) => void,
+): void {
+	column.addEventListener("dragover", (event) => {
+		if (!event.dataTransfer?.types.includes(DRAG_MIME)) return;
+		event.preventDefault();
+		event.dataTransfer.dropEffect = "move";
+		column.addClass("is-drop-target");
+	});
+	column.addEventListener("dragleave", (event) => {
+		if (event.relatedTarget instanceof Node && column.contains(event.relatedTarget)) return;
+		column.removeClass("is-drop-target");
+	});
+	column.addEventListener("drop", (event) => {
+		column.removeClass("is-drop-target");
+		const itemId = event.dataTransfer?.getData(DRAG_MIME);
+		if (!itemId) return;
+		event.preventDefault();
+		const siblings = items.filter((item) => item.id !== itemId);
+		const index = dropIndex(column, itemId, event.clientY);
+		onDrop(itemId, sortOrderAt(siblings, index));
+	});
+}
+
+function dropIndex(column: HTMLElement, draggedId: string, clientY: number): number {
+	const cards = Array.from(column.querySelectorAll<HTMLElement>(".plane-board__card")).filter(
+		(card) => card.dataset.planeItemId !== draggedId,
+	);
+	const index = cards.findIndex((card) => {
+		const rect = card.getBoundingClientRect();
+		return clientY < rect.top + rect.height / 2;
+	});
+	return index === -1 ? cards.length : index;
+}
+
+function sortOrderAt(siblings: PlaneWorkItem[], index: number): number {
+	const before = siblings[index - 1]?.sort_order;
+	const after = siblings[index]?.sort_order;
+	if (before === undefined && after === undefined) return SORT_STEP;
+	if (before === undefined) return (after ?? 0) - SORT_STEP;
+	if (after === undefined) return before + SORT_STEP;
+	return (before + after) / 2;
+}
+
+export function sortBySortOrder(items: PlaneWorkItem[]): PlaneWorkItem[] {
+	return [...items].sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0));
+}
@@ -0,0 +1,75 @@
+import { App, ButtonComponent, Modal } from "obsidian";
+import type PlaneProjectPlugin from "../main";
+
+export class OutboxModal extends Modal {
+	private readonly onUpdate = () => this.render();
+
+	constructor(app: App, private readonly plugin: PlaneProjectPlugin) {
+		super(app);
+	}
+
+	onOpen(): void {
+		this.contentEl.addClass("plane-hub");
+		this.titleEl.setText("Pending plane changes");
+		this.plugin.events.on("outbox-updated", this.onUpdate);
+		this.render();
+	}
+
+	onClose(): void {
+		this.plugin.events.off("outbox-updated", this.onUpdate);
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		const { outbox } = this.plugin;
+		// entries queued under another profile replay when that profile is active again
+		const entries = outbox.entries.filter((e) => outbox.isActiveProfile(e));
+		const elsewhere = outbox.entries.length - entries.length;
+
+		const header = contentEl.createDiv({ cls: "plane-hub__row" });
+		header.createSpan({
+			text: entries.length
+				? `${outbox.pendingCount} pending, ${entries.length - outbox.pendingCount} failed`
+				: "Nothing waiting to sync.",
+			cls: "plane-hub__muted",
+		});
+		if (elsewhere) {
+			header.createSpan({ text: `${elsewhere} queued for other profiles`, cls: "plane-hub__muted" });
+		}
+		if (entries.length) {
+			const retryAll = new ButtonComponent(header);
+			retryAll.setButtonText("Retry all").onClick(() => {
+				retryAll.setDisabled(true).setButtonText("Retrying…");
+				void outbox.retryAll();
+			});
+		}
+
+		const list = contentEl.createDiv({ cls: "plane-hub__list plane-outbox" });
+		for (const entry of entries) {
+			const card = list.createDiv({ cls: `plane-hub__card plane-outbox__entry is-${entry.status}` });
+			card.createEl("div", { text: outbox.describe(entry), cls: "plane-hub__card-title" });
+			const meta = card.createDiv({ cls: "plane-hub__card-meta" });
+			meta.createSpan({ text: entry.status, cls: "plane-hub__pill" });
+			meta.createSpan({ text: this.plugin.projectLabel(entry.projectId) });
+			meta.createSpan({ text: new Date(entry.createdAt).toLocaleString() });
+			if (entry.attempts) meta.createSpan({ text: `${entry.attempts} attempt${entry.attempts === 1 ? "" : "s"}` });
+			if (entry.lastError) card.createDiv({ text: entry.lastError, cls: "plane-hub__muted plane-outbox__error" });
+
+			const actions = card.createDiv({ cls: "plane-hub__row" });
+			if (entry.conflict) {
+				new ButtonComponent(actions)
+					.setButtonText("Resolve conflict")
+					.setCta()
+					.onClick(() => void outbox.resolveConflict(entry.id));
+			} else {
+				new ButtonComponent(actions).setButtonText("Retry").onClick(() => void outbox.retry(entry.id));
+			}
+			new ButtonComponent(actions)
+				.setButtonText("Discard")
+				.setWarning()
+				.onClick(() => void outbox.discard(entry.id));
+		}
+	}
+}
@@ -0,0 +1,126 @@
+import { ButtonComponent, DropdownComponent, MarkdownRenderChild, Notice } from "obsidian";
+import type PlaneProjectPlugin from "../main";
+import { describeError } from "../errors";
+import { parseQuery, runQuery, type PlaneQuery } from "../query";
+import type { PlaneWorkItem, ProjectCache } from "../types";
+import { renderAssignees, renderLabelPills } from "./cards";
+
+/** Live work item list for a `plane` code block; re-renders whenever the cache changes. */
+export class PlaneQueryBlock extends MarkdownRenderChild {
+	constructor(
+		containerEl: HTMLElement,
+		private readonly plugin: PlaneProjectPlugin,
+		private readonly source: string,
+	) {
+		super(containerEl);
+	}
+
+	onload(): void {
+		this.registerEvent(this.plugin.events.on("cache-updated", () => this.render()));
+		this.render();
+	}
+
+	private render(): void {
+		const el = this.containerEl;
+		el.empty();
+		el.addClass("plane-query");
+
+		const { query, errors } = parseQuery(this.source);
+		if (errors.length) {
+			const list = el.createEl("ul", { cls: "plane-query__errors" });
+			for (const error of errors) list.createEl("li", { text: error });
+		}
+
+		const projectId = this.resolveProject(query);
+		if (!projectId) {
+			el.createDiv({ text: `Unknown project "${query.project ?? ""}".`, cls: "plane-hub__muted" });
+			return;
+		}
+		const data = this.plugin.getProjectCache(projectId);
+		if (!data) {
+			const row = el.createDiv({ cls: "plane-hub__row" });
+			row.createSpan({ text: `${this.plugin.projectLabel(projectId)} is not synced yet.`, cls: "plane-hub__muted" });
+			const sync = new ButtonComponent(row).setButtonText("Sync");
+			sync.onClick(() => {
+				sync.setDisabled(true).setButtonText("Syncing…");
+				// a background sync leaves the hub and board on their project; success re-renders the block
+				void this.plugin.syncFromPlane(false, projectId, false, true).then(() => {
+					if (this.plugin.getProjectCache(projectId)) return;
+					new Notice(`Plane sync failed: ${this.plugin.syncErrors.get(projectId) ?? "unknown error"}`);
+					sync.setDisabled(false).setButtonText("Sync");
+				});
+			});
+			return;
+		}
+
+		const items = runQuery(query, data, this.plugin.cache.me?.id);
+		if (!items.length) {
+			el.createDiv({ text: "No matching work items.", cls: "plane-hub__muted" });
+			return;
+		}
+		if (query.view === "list") this.renderList(items, data, projectId);
+		else this.renderTable(items, data, projectId);
+	}
+
+	/** Accepts the project id, identifier or name; defaults to the selected project. */
+	private resolveProject(query: PlaneQuery): string | undefined {
+		const wanted = query.project?.toLowerCase();
+		if (!wanted) return this.plugin.cache.selectedProjectId || this.plugin.connection.defaultProjectId || undefined;
+		if (this.plugin.cache.projects[query.project ?? ""]) return query.project;
+		return this.plugin.availableProjects.find(
+			(p) => p.id === query.project || p.identifier?.toLowerCase() === wanted || p.name.toLowerCase() === wanted,
+		)?.id;
+	}
+
+	private renderTable(items: PlaneWorkItem[], data: ProjectCache, projectId: string): void {
+		const table = this.containerEl.createEl("table", { cls: "plane-query__table" });
+		const head = table.createEl("thead").createEl("tr");
+		for (const title of ["ID", "Title", "State", "Priority", "Labels", "Assignees"]) head.createEl("th", { text: title });
+		const body = table.createEl("tbody");
+		for (const item of items) {
+			const row = body.createEl("tr");
+			row.createEl("td", { text: item.identifier ?? "" });
+			this.renderTitle(row.createEl("td"), item);
+			this.renderStateSelect(row.createEl("td"), item, data, projectId);
+			row.createEl("td", { text: item.priority ?? "" });
+			renderLabelPills(row.createEl("td"), item.labels, data.labels);
+			renderAssignees(row.createEl("td"), item.assignees, data.members, this.plugin.connection.apiBaseUrl);
+		}
+	}
+
+	private renderList(items: PlaneWorkItem[], data: ProjectCache, projectId: string): void {
+		const list = this.containerEl.createEl("ul", { cls: "plane-query__list" });
+		for (const item of items) {
+			const entry = list.createEl("li", { cls: "plane-hub__row" });
+			if (item.identifier) entry.createSpan({ text: item.identifier, cls: "plane-hub__pill" });
+			this.renderTitle(entry, item);
+			this.renderStateSelect(entry, item, data, projectId);
+		}
+	}
+
+	private renderTitle(container: HTMLElement, item: PlaneWorkItem): void {
+		const link = container.createEl("a", { text: item.name, cls: "plane-query__title", href: "#" });
+		link.addEventListener("click", (event) => {
+			event.preventDefault();
+			void this.openNote(item);
+		});
+	}
+
+	private renderStateSelect(container: HTMLElement, item: PlaneWorkItem, data: ProjectCache, projectId: string): void {
+		const select = new DropdownComponent(container);
+		for (const state of data.states) select.addOption(state.id, state.name);
+		select.setValue(item.state_id ?? item.state ?? "");
+		select.onChange((value) => {
+			void this.plugin.moveWorkItem(item, value, undefined, projectId);
+		});
+	}
+
+	private async openNote(item: PlaneWorkItem): Promise<void> {
+		try {
+			const file = await this.plugin.ensureNoteForWorkItem(item);
+			await this.plugin.app.workspace.getLeaf(true).openFile(file);
+		} catch (error) {
+			new Notice(`Failed to open note: ${describeError(error)}`);
+		}
+	}
+}
@@ -0,0 +1,78 @@
+import { App, ButtonComponent, DropdownComponent, Modal, Setting } from "obsidian";
+
+export type RemovalKind = "archive" | "delete";
+export type NoteAction = "keep" | "archive" | "delete";
+
+export interface RemovalChoice {
+	noteAction: NoteAction;
+}
+
+/**
+ * Confirms archiving or deleting a Plane record and, when it has linked notes, asks
+ * what should happen to them. Resolves with null when cancelled.
+ */
+export class RemoveModal extends Modal {
+	private choice: RemovalChoice | null = null;
+	private noteAction: NoteAction = "keep";
+
+	constructor(
+		app: App,
+		private readonly kind: RemovalKind,
+		private readonly label: string,
+		private readonly noteCount: number,
+		private readonly onDone: (choice: RemovalChoice | null) => void,
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const verb = this.kind === "archive" ? "Archive" : "Delete";
+		this.titleEl.setText(`${verb} ${this.label}?`);
+		const { contentEl } = this;
+		contentEl.createEl("p", {
+			text:
+				this.kind === "archive"
+					? "The record is hidden from plane's lists and can be restored later."
+					: "The record is deleted in plane. This cannot be undone.",
+			cls: "plane-hub__muted",
+		});
+
+		if (this.noteCount) {
+			new Setting(contentEl)
+				.setName(this.noteCount === 1 ? "Linked note" : `${this.noteCount} linked notes`)
+				.addDropdown((dropdown: DropdownComponent) => {
+					dropdown
+						.addOption("keep", "Keep")
+						.addOption("archive", "Move to archive folder")
+						.addOption("delete", "Move to trash")
+						.setValue(this.noteAction)
+						.onChange((value) => {
+							this.noteAction = value as NoteAction;
+						});
+				});
+		}
+
+		const buttons = contentEl.createDiv({ cls: "plane-hub__row" });
+		const confirm = new ButtonComponent(buttons).setButtonText(verb).onClick(() => {
+			this.choice = { noteAction: this.noteAction };
+			this.close();
+		});
+		if (this.kind === "delete") confirm.setWarning();
+		else confirm.setCta();
+		new ButtonComponent(buttons).setButtonText("Cancel").onClick(() => this.close());
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		this.onDone(this.choice);
+	}
+}
+
+export function promptRemoval(
+	app: App,
+	kind: RemovalKind,
+	label: string,
+	noteCount: number,
+): Promise<RemovalChoice | null> {
+	return new Promise((resolve) => new RemoveModal(app, kind, label, noteCount, resolve).open());
+}
@@ -0,0 +1,48 @@
+import type PlaneProjectPlugin from "../main";
+
+const REFRESH_MS = 30 * 1000;
+
+function timeAgo(time: number): string {
+	const minutes = Math.floor((Date.now() - time) / 60000);
+	if (minutes < 1) return "just now";
+	if (minutes < 60) return `${minutes} min ago`;
+	const hours = Math.floor(minutes / 60);
+	return hours < 24 ? `${hours} h ago` : new Date(time).toLocaleDateString();
+}
+
+/** Status bar entry with the sync state of the selected project; click to sync it. */
+export class PlaneStatusBar {
+	constructor(
+		private readonly plugin: PlaneProjectPlugin,
+		private readonly el: HTMLElement,
+	) {
+		el.addClass("plane-status", "mod-clickable");
+		plugin.registerDomEvent(el, "click", () => {
+			void plugin.syncFromPlane(false);
+		});
+		plugin.registerEvent(plugin.events.on("sync-status", () => this.render()));
+		plugin.registerEvent(plugin.events.on("cache-updated", () => this.render()));
+		// keep "n min ago" current
+		plugin.registerInterval(window.setInterval(() => this.render(), REFRESH_MS));
+		this.render();
+	}
+
+	private render(): void {
+		const { plugin, el } = this;
+		el.removeClass("is-error");
+		if (plugin.syncing) {
+			el.setText("Plane: syncing…");
+			el.setAttr("aria-label", "Plane sync in progress");
+			return;
+		}
+		if (plugin.syncErrors.size) {
+			el.addClass("is-error");
+			el.setText("Plane: sync failed");
+			el.setAttr("aria-label", `${[...plugin.syncErrors.values()].join("\n")}\nClick to retry`);
+			return;
+		}
+		const lastSync = plugin.getProjectCache()?.lastSync;
+		el.setText(lastSync ? `Plane: synced ${timeAgo(lastSync)}` : "Plane: not synced");
+		el.setAttr("aria-label", "Click to sync the current project");
+	}
+}
@@ -0,0 +1,608 @@
+import {
+	ButtonComponent,
+	ItemView,
+	Menu,
+	Notice,
+	TextComponent,
+	debounce,
+	type ViewStateResult,
+} from "obsidian";
+import type { WorkspaceLeaf } from "obsidian";
+import type PlaneProjectPlugin from "../main";
+import { describeError } from "../errors";
+import { PRIORITIES, priorityRank } from "../query";
+import type {
+	PlaneLabel,
+	PlaneModule,
+	PlaneState,
+	PlaneWorkItem,
+	ProjectCache,
+	WorkItemPayload,
+} from "../types";
+
+export const VIEW_TYPE_PLANE_TABLE = "plane-project-table";
+
+// rows are added in batches as the table scrolls, so big projects open quickly
+const ROW_BATCH = 200;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+type ColumnKey =
+	| "identifier"
+	| "name"
+	| "state"
+	| "priority"
+	| "module"
+	| "startDate"
+	| "targetDate"
+	| "labels";
+
+/** Lookups built once per render rather than per cell. */
+interface TableContext {
+	data: ProjectCache;
+	states: Map<string, PlaneState>;
+	modules: Map<string, PlaneModule>;
+	labels: Map<string, PlaneLabel>;
+}
+
+interface TableColumn {
+	key: ColumnKey;
+	title: string;
+	text(item: PlaneWorkItem, ctx: TableContext): string;
+	sortValue?(item: PlaneWorkItem, ctx: TableContext): string | number;
+	/** Inline editor; columns without one are read-only */
+	editor?: "text" | "select" | "date";
+	/** Choices of a select editor as [value, label] */
+	options?(ctx: TableContext): [string, string][];
+	/** Value the editor starts from */
+	raw?(item: PlaneWorkItem): string;
+	/** Work item change for an edited value, or an error message */
+	apply?(value: string, ctx: TableContext): Partial<WorkItemPayload> | string;
+}
+
+function stateOf(
+	item: PlaneWorkItem,
+	ctx: TableContext,
+): PlaneState | undefined {
+	return ctx.states.get(item.state_id ?? item.state ?? "");
+}
+
+function dateColumn(
+	key: "startDate" | "targetDate",
+	title: string,
+	field: "start_date" | "target_date",
+): TableColumn {
+	return {
+		key,
+		title,
+		editor: "date",
+		text: (item) => item[field] ?? "",
+		raw: (item) => item[field] ?? "",
+		apply: (value) =>
+			!value || DATE_RE.test(value)
+				? { [field]: value || null }
+				: `${title} must be a YYYY-MM-DD date`,
+	};
+}
+
+const COLUMNS: TableColumn[] = [
+	{
+		key: "identifier",
+		title: "ID",
+		text: (item) => item.identifier ?? "",
+		sortValue: (item) => item.sequence_id ?? Number.MAX_SAFE_INTEGER,
+	},
+	{
+		key: "name",
+		title: "Title",
+		editor: "text",
+		text: (item) => item.name,
+		raw: (item) => item.name,
+		apply: (value) =>
+			value.trim() ? { name: value.trim() } : "The title can't be empty",
+	},
+	{
+		key: "state",
+		title: "State",
+		editor: "select",
+		text: (item, ctx) => stateOf(item, ctx)?.name ?? "",
+		sortValue: (item, ctx) => stateOf(item, ctx)?.sequence ?? 0,
+		options: (ctx) =>
+			[...ctx.data.states]
+				.sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0))
+				.map((s) => [s.id, s.name]),
+		raw: (item) => item.state_id ?? item.state ?? "",
+		apply: (value) => ({ state: value }),
+	},
+	{
+		key: "priority",
+		title: "Priority",
+		editor: "select",
+		text: (item) => item.priority || "none",
+		sortValue: (item) => priorityRank(item.priority),
+		options: () => PRIORITIES.map((p) => [p, p]),
+		raw: (item) => item.priority || "none",
+		apply: (value) => ({ priority: value === "none" ? null : value }),
+	},
+	{
+		key: "module",
+		title: "Module",
+		editor: "select",
+		text: (item, ctx) =>
+			ctx.modules.get(item.module ?? item.module_id ?? "")?.name ?? "",
+		options: (ctx) => [
+			["", "No module"],
+			...ctx.data.modules.map((m): [string, string] => [m.id, m.name]),
+		],
+		raw: (item) => item.module ?? item.module_id ?? "",
+		apply: (value) => ({ module: value || null }),
+	},
+	dateColumn("startDate", "Start date", "start_date"),
+	dateColumn("targetDate", "Target date", "target_date"),
+	{
+		key: "labels",
+		title: "Labels",
+		editor: "text",
+		text: (item, ctx) =>
+			(item.labels ?? [])
+				.map((id) => ctx.labels.get(id)?.name)
+				.filter(Boolean)
+				.join(", "),
+		apply: (value, ctx) => {
+			const ids: string[] = [];
+			for (const name of value.split(",").map((n) => n.trim())) {
+				if (!name) continue;
+				const label = ctx.data.labels.find(
+					(l) => l.name.toLowerCase() === name.toLowerCase(),
+				);
+				if (!label) return `Unknown label "${name}"`;
+				ids.push(label.id);
+			}
+			return { labels: ids };
+		},
+	},
+];
+
+const DEFAULT_COLUMNS: ColumnKey[] = [
+	"identifier",
+	"name",
+	"state",
+	"priority",
+	"module",
+	"targetDate",
+];
+
+interface TableViewState {
+	projectId?: string;
+	columns?: ColumnKey[];
+	sort?: ColumnKey;
+	descending?: boolean;
+	filter?: string;
+}
+
+/**
+ * Spreadsheet-style list of the selected project's work items: pick columns, sort,
+ * filter by text and edit cells in place (Enter or F2 to edit, arrows to move).
+ */
+export class PlaneTableView extends ItemView {
+	private columns: ColumnKey[] = DEFAULT_COLUMNS;
+	private sort: ColumnKey | undefined;
+	private descending = false;
+	private filter = "";
+	private rows: PlaneWorkItem[] = [];
+	private shown = 0;
+	private tbody: HTMLElement | null = null;
+	private ctx: TableContext | null = null;
+	private observer: IntersectionObserver | null = null;
+	// the focused cell survives re-renders by item id and column
+	private active: { itemId: string; column: number } | null = null;
+	private editing = false;
+	private renderPending = false;
+	private readonly onCache = () => this.requestRender();
+	private readonly applyFilter = debounce(
+		() => {
+			this.app.workspace.requestSaveLayout();
+			this.renderTable();
+		},
+		200,
+		true,
+	);
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		private readonly plugin: PlaneProjectPlugin,
+	) {
+		super(leaf);
+		this.registerEvent(this.plugin.events.on("cache-updated", this.onCache));
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PLANE_TABLE;
+	}
+
+	getIcon(): string {
+		return "table";
+	}
+
+	getDisplayText(): string {
+		const project = this.plugin.projectLabel(
+			this.plugin.cache.selectedProjectId ?? "",
+		);
+		return project ? `Plane table: ${project}` : "Plane table";
+	}
+
+	async setState(
+		state: TableViewState,
+		result: ViewStateResult,
+	): Promise<void> {
+		this.columns = state.columns?.length ? state.columns : DEFAULT_COLUMNS;
+		this.sort = state.sort;
+		this.descending = Boolean(state.descending);
+		this.filter = state.filter ?? "";
+		if (state.projectId) {
+			this.plugin.cache.selectedProjectId = state.projectId;
+			await this.plugin.savePersisted();
+			await this.plugin.ensureProjectLoaded(state.projectId);
+		}
+		this.render();
+		return super.setState(state, result);
+	}
+
+	getState(): Record<string, unknown> {
+		return {
+			projectId: this.plugin.cache.selectedProjectId,
+			columns: this.columns,
+			sort: this.sort,
+			descending: this.descending,
+			filter: this.filter,
+		};
+	}
+
+	onOpen(): Promise<void> {
+		this.render();
+		return Promise.resolve();
+	}
+
+	protected onClose(): Promise<void> {
+		this.plugin.events.off("cache-updated", this.onCache);
+		this.observer?.disconnect();
+		return Promise.resolve();
+	}
+
+	/** Holds re-renders back while a cell is being edited. */
+	private requestRender(): void {
+		if (this.editing) this.renderPending = true;
+		else this.renderTable();
+	}
+
+	/** Catches up on a re-render held back by an edit. */
+	private flushRender(): void {
+		if (this.renderPending && !this.editing) this.renderTable();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("plane-hub");
+		this.shown = 0;
+
+		const header = contentEl.createDiv({ cls: "plane-hub__header" });
+		header.createEl("h2", { text: "Work item table" });
+		const actions = header.createDiv({ cls: "plane-hub__actions" });
+		const filter = new TextComponent(actions);
+		filter
+			.setPlaceholder("Filter")
+			.setValue(this.filter)
+			.onChange((value) => {
+				this.filter = value;
+				this.applyFilter();
+			});
+		const columns = new ButtonComponent(actions).setButtonText("Columns");
+		columns.onClick((evt) => this.openColumnMenu(evt));
+
+		contentEl.createDiv({ cls: "plane-table" });
+		this.renderTable();
+	}
+
+	private openColumnMenu(evt: MouseEvent): void {
+		const menu = new Menu();
+		for (const column of COLUMNS) {
+			const visible = this.columns.includes(column.key);
+			menu.addItem((entry) =>
+				entry
+					.setTitle(column.title)
+					.setChecked(visible)
+					.onClick(() => {
+						// keep the table's column order
+						this.columns = COLUMNS.map((c) => c.key).filter((key) =>
+							key === column.key
+								? !visible
+								: this.columns.includes(key),
+						);
+						this.app.workspace.requestSaveLayout();
+						this.renderTable();
+					}),
+			);
+		}
+		menu.showAtMouseEvent(evt);
+	}
+
+	private get visibleColumns(): TableColumn[] {
+		return COLUMNS.filter((c) => this.columns.includes(c.key));
+	}
+
+	private renderTable(): void {
+		const container = this.contentEl.querySelector<HTMLElement>(".plane-table");
+		if (!container) return;
+		const scrollTop = container.scrollTop;
+		const hadFocus = container.contains(document.activeElement);
+		container.empty();
+		this.observer?.disconnect();
+		this.renderPending = false;
+
+		const data = this.plugin.getProjectDataOrEmpty();
+		const ctx: TableContext = {
+			data,
+			states: new Map(data.states.map((s) => [s.id, s])),
+			modules: new Map(data.modules.map((m) => [m.id, m])),
+			labels: new Map(data.labels.map((l) => [l.id, l])),
+		};
+		this.ctx = ctx;
+		const columns = this.visibleColumns;
+		this.rows = this.sortedRows(this.filteredRows(data.workItems, ctx), ctx);
+
+		if (!this.rows.length) {
+			container.createSpan({
+				text: data.workItems.length
+					? "No work items match the filter."
+					: "No work items. Sync or create one.",
+				cls: "plane-hub__muted",
+			});
+			return;
+		}
+
+		const table = container.createEl("table", { cls: "plane-table__grid" });
+		const headRow = table.createEl("thead").createEl("tr");
+		for (const column of columns) {
+			const th = headRow.createEl("th", { text: column.title });
+			if (this.sort === column.key) {
+				th.addClass("is-sorted");
+				th.createSpan({ text: this.descending ? " ▼" : " ▲" });
+			}
+			th.addEventListener("click", () => {
+				this.descending = this.sort === column.key && !this.descending;
+				this.sort = column.key;
+				this.app.workspace.requestSaveLayout();
+				this.renderTable();
+			});
+		}
+		this.tbody = table.createEl("tbody");
+		table.addEventListener("keydown", (evt) => this.onKeyDown(evt));
+
+		// render as many rows as before, and at least up to the focused one, so
+		// neither the scroll position nor the focus is lost
+		const activeIndex = this.active
+			? this.rows.findIndex((r) => r.id === this.active?.itemId)
+			: -1;
+		const count = Math.max(ROW_BATCH, this.shown, activeIndex + 1);
+		this.shown = 0;
+		this.appendRows(count);
+		container.scrollTop = scrollTop;
+		if (hadFocus && activeIndex >= 0) {
+			this.focusCell(activeIndex, this.active?.column ?? 0);
+		}
+	}
+
+	private appendRows(count: number): void {
+		const { tbody, ctx } = this;
+		if (!tbody || !ctx) return;
+		tbody.querySelector(".plane-table__more")?.remove();
+		const columns = this.visibleColumns;
+		const end = Math.min(this.rows.length, this.shown + count);
+		for (let index = this.shown; index < end; index++) {
+			const item = this.rows[index];
+			if (!item) continue;
+			const tr = tbody.createEl("tr");
+			columns.forEach((column, col) => {
+				const td = tr.createEl("td", { text: column.text(item, ctx) });
+				// the first cell is the way in with Tab; arrows do the rest
+				td.tabIndex = index === 0 && col === 0 ? 0 : -1;
+				td.dataset.row = String(index);
+				td.dataset.col = String(col);
+				if (column.editor) td.addClass("is-editable");
+				td.addEventListener("focus", () => {
+					this.active = { itemId: item.id, column: col };
+				});
+				td.addEventListener("dblclick", () => this.startEdit(index, col));
+			});
+		}
+		this.shown = end;
+
+		if (this.shown < this.rows.length) {
+			const more = tbody.createEl("tr", { cls: "plane-table__more" });
+			more.createEl("td", {
+				text: `${this.rows.length - this.shown} more…`,
+				cls: "plane-hub__muted",
+				attr: { colspan: String(columns.length) },
+			});
+			this.observer = new IntersectionObserver((entries) => {
+				if (entries.some((e) => e.isIntersecting)) {
+					this.observer?.disconnect();
+					this.appendRows(ROW_BATCH);
+				}
+			});
+			this.observer.observe(more);
+		}
+	}
+
+	private filteredRows(
+		items: PlaneWorkItem[],
+		ctx: TableContext,
+	): PlaneWorkItem[] {
+		const needle = this.filter.trim().toLowerCase();
+		if (!needle) return items;
+		const columns = this.visibleColumns;
+		return items.filter((item) =>
+			columns.some((c) => c.text(item, ctx).toLowerCase().includes(needle)),
+		);
+	}
+
+	private sortedRows(
+		items: PlaneWorkItem[],
+		ctx: TableContext,
+	): PlaneWorkItem[] {
+		const column = COLUMNS.find((c) => c.key === this.sort);
+		if (!column) {
+			return [...items].sort(
+				(a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0),
+			);
+		}
+		const keyed = items.map((item) => ({
+			item,
+			key: column.sortValue
+				? column.sortValue(item, ctx)
+				: column.text(item, ctx),
+		}));
+		keyed.sort((a, b) => {
+			const order =
+				typeof a.key === "number" && typeof b.key === "number"
+					? a.key - b.key
+					: String(a.key).localeCompare(String(b.key));
+			return this.descending ? -order : order;
+		});
+		return keyed.map((k) => k.item);
+	}
+
+	private cell(row: number, col: number): HTMLElement | null {
+		return (
+			this.tbody?.querySelector<HTMLElement>(
+				`td[data-row="${row}"][data-col="${col}"]`,
+			) ?? null
+		);
+	}
+
+	private focusCell(row: number, col: number): void {
+		const maxCol = this.visibleColumns.length - 1;
+		const target = {
+			row: Math.max(0, Math.min(this.rows.length - 1, row)),
+			col: Math.max(0, Math.min(maxCol, col)),
+		};
+		if (target.row >= this.shown) this.appendRows(target.row - this.shown + 1);
+		const cell = this.cell(target.row, target.col);
+		if (!cell) return;
+		cell.focus();
+		cell.scrollIntoView({ block: "nearest" });
+	}
+
+	private onKeyDown(evt: KeyboardEvent): void {
+		if (this.editing) return;
+		const td =
+			evt.target instanceof HTMLElement ? evt.target.closest("td") : null;
+		if (!td?.dataset.row) return;
+		const row = Number(td.dataset.row);
+		const col = Number(td.dataset.col);
+		const moves: Record<string, [number, number]> = {
+			ArrowUp: [-1, 0],
+			ArrowDown: [1, 0],
+			ArrowLeft: [0, -1],
+			ArrowRight: [0, 1],
+			PageUp: [-20, 0],
+			PageDown: [20, 0],
+		};
+		const move = moves[evt.key];
+		if (move) {
+			evt.preventDefault();
+			this.focusCell(row + move[0], col + move[1]);
+		} else if (evt.key === "Home" || evt.key === "End") {
+			evt.preventDefault();
+			const last = this.visibleColumns.length - 1;
+			this.focusCell(row, evt.key === "Home" ? 0 : last);
+		} else if (evt.key === "Enter" || evt.key === "F2") {
+			evt.preventDefault();
+			this.startEdit(row, col);
+		}
+	}
+
+	private startEdit(row: number, col: number): void {
+		const item = this.rows[row];
+		const column = this.visibleColumns[col];
+		const td = this.cell(row, col);
+		const ctx = this.ctx;
+		if (!item || !column?.editor || !column.apply || !td || !ctx) return;
+		this.editing = true;
+		const original = td.getText();
+		td.empty();
+		td.addClass("is-editing");
+
+		let input: HTMLInputElement | HTMLSelectElement;
+		if (column.editor === "select") {
+			const select = td.createEl("select", { cls: "dropdown" });
+			for (const [value, label] of column.options?.(ctx) ?? []) {
+				select.createEl("option", { value, text: label });
+			}
+			input = select;
+		} else {
+			input = td.createEl("input", {
+				type: column.editor === "date" ? "date" : "text",
+			});
+		}
+		input.value = column.raw ? column.raw(item) : original;
+		input.focus();
+
+		let done = false;
+		const finish = (commit: boolean, moveBy = 0) => {
+			if (done) return;
+			done = true;
+			const value = input.value;
+			td.removeClass("is-editing");
+			td.setText(original);
+			this.editing = false;
+			if (commit && value !== (column.raw ? column.raw(item) : original)) {
+				// a successful save re-renders through cache-updated; a rejected one doesn't
+				void this.save(item, column, value, ctx).then(() =>
+					this.flushRender(),
+				);
+			} else {
+				this.flushRender();
+			}
+			this.focusCell(row + moveBy, col);
+		};
+		input.addEventListener("keydown", (evt: KeyboardEvent) => {
+			if (evt.key === "Enter") {
+				evt.preventDefault();
+				finish(true, 1);
+			} else if (evt.key === "Escape") {
+				evt.preventDefault();
+				finish(false);
+			} else if (evt.key === "Tab") {
+				evt.preventDefault();
+				finish(true);
+				this.focusCell(row, col + (evt.shiftKey ? -1 : 1));
+			}
+		});
+		input.addEventListener("blur", () => finish(true));
+		if (column.editor === "select") {
+			input.addEventListener("change", () => finish(true));
+		}
+	}
+
+	private async save(
+		item: PlaneWorkItem,
+		column: TableColumn,
+		value: string,
+		ctx: TableContext,
+	): Promise<void> {
+		const change = column.apply?.(value, ctx);
+		if (!change) return;
+		if (typeof change === "string") {
+			new Notice(change);
+			return;
+		}
+		try {
+			await this.plugin.patchWorkItem(item, change, item.project_id);
+		} catch (error) {
+			new Notice(
+				`Failed to update ${item.identifier ?? item.name}: ${describeError(error)}`,
+			);
+		}
+	}
+}
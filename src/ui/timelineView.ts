@@ -0,0 +1,477 @@
+import {
+	ButtonComponent,
+	DropdownComponent,
+	ItemView,
+	Notice,
+	type ViewStateResult,
+} from "obsidian";
+import type { WorkspaceLeaf } from "obsidian";
+import type PlaneProjectPlugin from "../main";
+import { describeError } from "../errors";
+import type { PlaneModule, PlaneWorkItem, ProjectCache } from "../types";
+
+export const VIEW_TYPE_PLANE_TIMELINE = "plane-module-timeline";
+
+export type TimelineZoom = "day" | "week" | "month";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// width of one day on the axis at each zoom level
+const DAY_WIDTH: Record<TimelineZoom, number> = { day: 32, week: 12, month: 3 };
+// days shown before the first and after the last date
+const PADDING_DAYS: Record<TimelineZoom, number> = {
+	day: 7,
+	week: 21,
+	month: 60,
+};
+const ZOOM_LABELS: Record<TimelineZoom, string> = {
+	day: "Days",
+	week: "Weeks",
+	month: "Months",
+};
+const DONE_MODULE_STATUSES = ["completed", "cancelled"];
+const DONE_STATE_GROUPS = ["completed", "cancelled"];
+
+/** Days since the epoch of a `YYYY-MM-DD` date (any time part is ignored). */
+function dayNumber(date: string): number | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+	if (!match) return null;
+	const [, year, month, day] = match.map(Number);
+	return Date.UTC(year ?? 0, (month ?? 1) - 1, day ?? 1) / DAY_MS;
+}
+
+function isoDate(day: number): string {
+	return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function today(): number {
+	const now = new Date();
+	return Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()) / DAY_MS;
+}
+
+/** Inclusive day span of a start and/or target date; one date is a one-day bar. */
+function spanOf(
+	start: string | null | undefined,
+	target: string | null | undefined,
+): { start: number; end: number } | null {
+	const from = start ? dayNumber(start) : null;
+	const to = target ? dayNumber(target) : null;
+	if (from === null && to === null) return null;
+	const a = from ?? to ?? 0;
+	const b = to ?? from ?? 0;
+	return { start: Math.min(a, b), end: Math.max(a, b) };
+}
+
+/** Axis ticks: every day, every Monday or every first of the month. */
+function ticks(
+	first: number,
+	last: number,
+	zoom: TimelineZoom,
+): { day: number; label: string }[] {
+	const result: { day: number; label: string }[] = [];
+	for (let day = first; day <= last; day++) {
+		const date = new Date(day * DAY_MS);
+		if (zoom === "day") {
+			result.push({ day, label: String(date.getUTCDate()) });
+		} else if (zoom === "week" && date.getUTCDay() === 1) {
+			result.push({
+				day,
+				label: date.toLocaleDateString(undefined, {
+					month: "short",
+					day: "numeric",
+					timeZone: "UTC",
+				}),
+			});
+		} else if (zoom === "month" && date.getUTCDate() === 1) {
+			result.push({
+				day,
+				label: date.toLocaleDateString(undefined, {
+					month: "short",
+					year: "2-digit",
+					timeZone: "UTC",
+				}),
+			});
+		}
+	}
+	return result;
+}
+
+interface TimelineViewState {
+	projectId?: string;
+	zoom?: TimelineZoom;
+	showItems?: boolean;
+}
+
+/** A bar on the timeline: a module or a work item with its dates. */
+interface TimelineEntry {
+	label: string;
+	start: string | null;
+	target: string | null;
+	overdue: boolean;
+	isItem: boolean;
+	/** Absent on group headings, which have no bar */
+	save?(start: string | null, target: string | null): Promise<unknown>;
+}
+
+type DragMode = "move" | "start" | "end";
+
+/**
+ * Modules of the selected project, optionally with their dated work items, as bars
+ * on a day/week/month axis. Dragging a bar or its edges changes the dates in Plane.
+ */
+export class PlaneTimelineView extends ItemView {
+	private zoom: TimelineZoom = "week";
+	private showItems = false;
+	private readonly onCache = () => this.render();
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		private readonly plugin: PlaneProjectPlugin,
+	) {
+		super(leaf);
+		this.registerEvent(this.plugin.events.on("cache-updated", this.onCache));
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PLANE_TIMELINE;
+	}
+
+	getIcon(): string {
+		return "gantt-chart";
+	}
+
+	getDisplayText(): string {
+		const project = this.plugin.projectLabel(
+			this.plugin.cache.selectedProjectId ?? "",
+		);
+		return project ? `Plane timeline: ${project}` : "Plane timeline";
+	}
+
+	async setState(
+		state: TimelineViewState,
+		result: ViewStateResult,
+	): Promise<void> {
+		this.zoom = state.zoom ?? this.zoom;
+		this.showItems = state.showItems ?? this.showItems;
+		if (state.projectId) {
+			this.plugin.cache.selectedProjectId = state.projectId;
+			await this.plugin.savePersisted();
+			await this.plugin.ensureProjectLoaded(state.projectId);
+		}
+		this.render();
+		return super.setState(state, result);
+	}
+
+	getState(): Record<string, unknown> {
+		return {
+			projectId: this.plugin.cache.selectedProjectId,
+			zoom: this.zoom,
+			showItems: this.showItems,
+		};
+	}
+
+	onOpen(): Promise<void> {
+		this.render();
+		return Promise.resolve();
+	}
+
+	protected onClose(): Promise<void> {
+		this.plugin.events.off("cache-updated", this.onCache);
+		return Promise.resolve();
+	}
+
+	private render(scrollToToday = false): void {
+		const { contentEl } = this;
+		const previous = contentEl.querySelector(".plane-timeline");
+		const scrollLeft = previous?.scrollLeft ?? 0;
+		const scrollTop = previous?.scrollTop ?? 0;
+		contentEl.empty();
+		contentEl.addClass("plane-hub");
+
+		const header = contentEl.createDiv({ cls: "plane-hub__header" });
+		header.createEl("h2", { text: "Module timeline" });
+		const actions = header.createDiv({ cls: "plane-hub__actions" });
+		const zoom = new DropdownComponent(actions);
+		for (const [value, label] of Object.entries(ZOOM_LABELS)) {
+			zoom.addOption(value, label);
+		}
+		zoom.setValue(this.zoom).onChange((value) => {
+			this.zoom = value as TimelineZoom;
+			this.app.workspace.requestSaveLayout();
+			this.render(true);
+		});
+		new ButtonComponent(actions)
+			.setButtonText(this.showItems ? "Hide work items" : "Show work items")
+			.onClick(() => {
+				this.showItems = !this.showItems;
+				this.app.workspace.requestSaveLayout();
+				this.render();
+			});
+		new ButtonComponent(actions)
+			.setButtonText("Today")
+			.onClick(() => this.render(true));
+
+		const data = this.plugin.getProjectDataOrEmpty();
+		const rows = this.entries(data);
+		if (!rows.length) {
+			contentEl.createSpan({
+				text: "No modules. Sync or create one.",
+				cls: "plane-hub__muted",
+			});
+			return;
+		}
+
+		const now = today();
+		const spans = rows
+			.map((row) => spanOf(row.start, row.target))
+			.filter((span) => span !== null);
+		const padding = PADDING_DAYS[this.zoom];
+		const first =
+			Math.min(now, ...spans.map((span) => span.start)) - padding;
+		const last = Math.max(now, ...spans.map((span) => span.end)) + padding;
+		const dayWidth = DAY_WIDTH[this.zoom];
+
+		const scroller = contentEl.createDiv({ cls: "plane-timeline" });
+		const grid = scroller.createDiv({ cls: "plane-timeline__grid" });
+		grid.style.setProperty(
+			"--plane-timeline-width",
+			`${(last - first + 1) * dayWidth}px`,
+		);
+		grid.style.setProperty(
+			"--plane-timeline-today",
+			`${(now - first) * dayWidth}px`,
+		);
+		grid.style.setProperty("--plane-timeline-day", `${dayWidth}px`);
+
+		const axis = grid.createDiv({
+			cls: "plane-timeline__row plane-timeline__axis",
+		});
+		axis.createDiv({ cls: "plane-timeline__label" });
+		const axisTrack = axis.createDiv({ cls: "plane-timeline__track" });
+		for (const tick of ticks(first, last, this.zoom)) {
+			const el = axisTrack.createDiv({
+				text: tick.label,
+				cls: "plane-timeline__tick",
+			});
+			el.style.setProperty(
+				"--plane-bar-left",
+				`${(tick.day - first) * dayWidth}px`,
+			);
+		}
+
+		for (const row of rows) {
+			const rowEl = grid.createDiv({ cls: "plane-timeline__row" });
+			rowEl.toggleClass("is-item", row.isItem);
+			rowEl.createDiv({
+				text: row.label,
+				cls: "plane-timeline__label",
+				attr: { title: row.label },
+			});
+			const track = rowEl.createDiv({ cls: "plane-timeline__track" });
+			const span = spanOf(row.start, row.target);
+			if (!row.save) continue;
+			if (!span) {
+				track.createSpan({ text: "No dates", cls: "plane-hub__muted" });
+				continue;
+			}
+			this.renderBar(track, row, span, first, dayWidth);
+		}
+		grid.createDiv({ cls: "plane-timeline__today" });
+
+		if (scrollToToday) {
+			scroller.scrollLeft = Math.max(
+				0,
+				(now - first) * dayWidth - scroller.clientWidth / 3,
+			);
+		} else {
+			scroller.scrollLeft = scrollLeft;
+		}
+		scroller.scrollTop = scrollTop;
+	}
+
+	/** Modules in cache order, each followed by its dated work items if shown. */
+	private entries(data: ProjectCache): TimelineEntry[] {
+		const now = today();
+		const projectId = this.plugin.cache.selectedProjectId;
+		const entries: TimelineEntry[] = [];
+		const itemsOf = (moduleId: string | null) =>
+			data.workItems.filter(
+				(item) =>
+					(item.module ?? item.module_id ?? null) === moduleId &&
+					(item.start_date || item.target_date),
+			);
+		const addItems = (items: PlaneWorkItem[]) => {
+			for (const item of items) {
+				const state = data.states.find(
+					(s) => s.id === (item.state_id ?? item.state),
+				);
+				entries.push({
+					label: item.identifier
+						? `${item.identifier} ${item.name}`
+						: item.name,
+					start: item.start_date ?? null,
+					target: item.target_date ?? null,
+					overdue: this.isOverdue(
+						item.target_date,
+						DONE_STATE_GROUPS.includes(state?.group ?? ""),
+						now,
+					),
+					isItem: true,
+					save: (start, target) =>
+						this.plugin.patchWorkItem(
+							item,
+							{ start_date: start, target_date: target },
+							projectId,
+						),
+				});
+			}
+		};
+
+		for (const mod of data.modules) {
+			entries.push(this.moduleEntry(mod, now));
+			if (this.showItems) addItems(itemsOf(mod.id));
+		}
+		if (this.showItems) {
+			const loose = itemsOf(null);
+			if (loose.length) {
+				entries.push({
+					label: "No module",
+					start: null,
+					target: null,
+					overdue: false,
+					isItem: false,
+				});
+				addItems(loose);
+			}
+		}
+		return entries;
+	}
+
+	private moduleEntry(mod: PlaneModule, now: number): TimelineEntry {
+		return {
+			label: mod.name,
+			start: mod.start_date ?? null,
+			target: mod.target_date ?? null,
+			overdue: this.isOverdue(
+				mod.target_date,
+				DONE_MODULE_STATUSES.includes(mod.status ?? ""),
+				now,
+			),
+			isItem: false,
+			save: (start, target) =>
+				this.plugin.upsertModule(
+					{
+						name: mod.name,
+						description: mod.description,
+						status: mod.status,
+						start_date: start,
+						target_date: target,
+					},
+					mod.id,
+					mod.project_id,
+				),
+		};
+	}
+
+	private isOverdue(
+		target: string | null | undefined,
+		done: boolean,
+		now: number,
+	): boolean {
+		const day = target ? dayNumber(target) : null;
+		return !done && day !== null && day < now;
+	}
+
+	private renderBar(
+		track: HTMLElement,
+		entry: TimelineEntry,
+		span: { start: number; end: number },
+		first: number,
+		dayWidth: number,
+	): void {
+		const bar = track.createDiv({ cls: "plane-timeline__bar" });
+		bar.toggleClass("is-overdue", entry.overdue);
+		const dates = `${isoDate(span.start)} → ${isoDate(span.end)}`;
+		bar.setAttr("aria-label", entry.overdue ? `${dates} (overdue)` : dates);
+		const place = (start: number, end: number) => {
+			bar.style.setProperty(
+				"--plane-bar-left",
+				`${(start - first) * dayWidth}px`,
+			);
+			bar.style.setProperty(
+				"--plane-bar-width",
+				`${(end - start + 1) * dayWidth}px`,
+			);
+		};
+		place(span.start, span.end);
+		bar.createDiv({ cls: "plane-timeline__handle is-start" });
+		bar.createDiv({ cls: "plane-timeline__handle is-end" });
+
+		bar.addEventListener("pointerdown", (evt) => {
+			if (evt.button !== 0) return;
+			evt.preventDefault();
+			const target = evt.target instanceof HTMLElement ? evt.target : bar;
+			const mode: DragMode = target.hasClass("is-start")
+				? "start"
+				: target.hasClass("is-end")
+					? "end"
+					: "move";
+			const originX = evt.clientX;
+			let next = span;
+			bar.setPointerCapture(evt.pointerId);
+			bar.addClass("is-dragging");
+
+			const onMove = (move: PointerEvent) => {
+				const delta = Math.round((move.clientX - originX) / dayWidth);
+				if (mode === "move") {
+					next = { start: span.start + delta, end: span.end + delta };
+				} else if (mode === "start") {
+					next = {
+						start: Math.min(span.start + delta, span.end),
+						end: span.end,
+					};
+				} else {
+					next = {
+						start: span.start,
+						end: Math.max(span.end + delta, span.start),
+					};
+				}
+				place(next.start, next.end);
+			};
+			const stopDrag = () => {
+				bar.removeEventListener("pointermove", onMove);
+				bar.removeEventListener("pointerup", onUp);
+				bar.removeEventListener("pointercancel", onCancel);
+				bar.removeClass("is-dragging");
+			};
+			const onUp = () => {
+				stopDrag();
+				if (next.start === span.start && next.end === span.end) return;
+				void this.saveDates(entry, next);
+			};
+			// a cancelled drag (touch scroll, lost focus) changes nothing
+			const onCancel = () => {
+				stopDrag();
+				place(span.start, span.end);
+			};
+			bar.addEventListener("pointermove", onMove);
+			bar.addEventListener("pointerup", onUp);
+			bar.addEventListener("pointercancel", onCancel);
+		});
+	}
+
+	private async saveDates(
+		entry: TimelineEntry,
+		span: { start: number; end: number },
+	): Promise<void> {
+		// a one-day bar of an entry with a single date keeps just that date
+		const single = !entry.start !== !entry.target && span.start === span.end;
+		const start = single && !entry.start ? null : isoDate(span.start);
+		const target = single && !entry.target ? null : isoDate(span.end);
+		try {
+			await entry.save?.(start, target);
+		} catch (error) {
+			new Notice(`Failed to update ${entry.label}: ${describeError(error)}`);
+			this.render();
+		}
+	}
+}
@@ -0,0 +1,136 @@
+import { ItemView, ButtonComponent } from "obsidian";
+import type { WorkspaceLeaf } from "obsidian";
+import type PlaneProjectPlugin from "../main";
+import { childrenByParent } from "../hierarchy";
+import type { PlaneWorkItem } from "../types";
+import { renderChildProgress } from "./cards";
+import { sortBySortOrder } from "./kanbanDrag";
+
+export const VIEW_TYPE_PLANE_TREE = "plane-project-tree";
+
+/** Outline of the selected project's parent/sub-issue hierarchy. */
+export class PlaneTreeView extends ItemView {
+	// ids of collapsed nodes; everything starts expanded
+	private readonly collapsed = new Set<string>();
+	private readonly onCache = () => this.render();
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		private readonly plugin: PlaneProjectPlugin,
+	) {
+		super(leaf);
+		this.registerEvent(
+			this.plugin.events.on("cache-updated", this.onCache),
+		);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PLANE_TREE;
+	}
+
+	getIcon(): string {
+		return "list-tree";
+	}
+
+	getDisplayText(): string {
+		const project = this.plugin.projectLabel(
+			this.plugin.cache.selectedProjectId ?? "",
+		);
+		return project ? `Plane tree: ${project}` : "Plane tree";
+	}
+
+	onOpen(): Promise<void> {
+		this.render();
+		return Promise.resolve();
+	}
+
+	protected onClose(): Promise<void> {
+		this.plugin.events.off("cache-updated", this.onCache);
+		return Promise.resolve();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("plane-hub");
+
+		const header = contentEl.createDiv({ cls: "plane-hub__header" });
+		header.createEl("h2", { text: "Work item tree" });
+		const actions = header.createDiv({ cls: "plane-hub__actions" });
+		new ButtonComponent(actions).setButtonText("Expand all").onClick(() => {
+			this.collapsed.clear();
+			this.render();
+		});
+		new ButtonComponent(actions)
+			.setButtonText("Collapse all")
+			.onClick(() => {
+				for (const item of this.plugin.getProjectDataOrEmpty().workItems) {
+					this.collapsed.add(item.id);
+				}
+				this.render();
+			});
+
+		const items = this.plugin.getProjectDataOrEmpty().workItems;
+		if (!items.length) {
+			contentEl.createSpan({ text: "No work items. Sync or create one." });
+			return;
+		}
+		const byParent = childrenByParent(items);
+		const root = contentEl.createEl("ul", { cls: "plane-tree" });
+		for (const item of sortBySortOrder(byParent.get("") ?? [])) {
+			this.renderNode(root, item, byParent);
+		}
+	}
+
+	private renderNode(
+		list: HTMLElement,
+		item: PlaneWorkItem,
+		byParent: Map<string, PlaneWorkItem[]>,
+	): void {
+		const children = sortBySortOrder(byParent.get(item.id) ?? []);
+		const node = list.createEl("li", { cls: "plane-tree__node" });
+		const row = node.createDiv({ cls: "plane-tree__row" });
+
+		const open = !this.collapsed.has(item.id);
+		const twisty = row.createSpan({
+			text: children.length ? (open ? "▾" : "▸") : "•",
+			cls: "plane-tree__twisty",
+		});
+		if (children.length) {
+			twisty.addEventListener("click", () => {
+				if (open) this.collapsed.add(item.id);
+				else this.collapsed.delete(item.id);
+				this.render();
+			});
+		}
+
+		if (item.identifier)
+			row.createSpan({ text: item.identifier, cls: "plane-hub__pill" });
+		const title = row.createSpan({
+			text: item.name,
+			cls: "plane-tree__title",
+		});
+		title.addEventListener("click", () => {
+			void this.openNote(item);
+		});
+		const state = this.plugin
+			.getProjectDataOrEmpty()
+			.states.find((s) => s.id === (item.state_id ?? item.state));
+		if (state) row.createSpan({ text: state.name, cls: "plane-hub__muted" });
+		renderChildProgress(
+			row,
+			byParent.get(item.id) ?? [],
+			this.plugin.getProjectDataOrEmpty().states,
+		);
+
+		if (children.length && open) {
+			const sub = node.createEl("ul", { cls: "plane-tree" });
+			for (const child of children) this.renderNode(sub, child, byParent);
+		}
+	}
+
+	private async openNote(item: PlaneWorkItem): Promise<void> {
+		const file = await this.plugin.ensureNoteForWorkItem(item);
+		await this.app.workspace.getLeaf(true).openFile(file);
+	}
+}
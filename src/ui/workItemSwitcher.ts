@@ -0,0 +1,125 @@
+import { Keymap, MarkdownView, Notice, Platform, SuggestModal, prepareFuzzySearch, renderResults } from "obsidian";
+import type { SearchResult } from "obsidian";
+import type PlaneProjectPlugin from "../main";
+import type { PlaneWorkItem } from "../types";
+
+interface WorkItemMatch {
+	item: PlaneWorkItem;
+	/** Match against "identifier name"; null when only the description matched */
+	title: SearchResult | null;
+	score: number;
+}
+
+// description hits rank below title hits
+const DESCRIPTION_PENALTY = 10;
+const MAX_SUGGESTIONS = 50;
+
+function titleText(item: PlaneWorkItem): string {
+	return item.identifier ? `${item.identifier} ${item.name}` : item.name;
+}
+
+/**
+ * Fuzzy finder over the work items of every cached project. Enter opens (or creates)
+ * the note; modifier keys edit the item, insert a reference or copy its Plane link.
+ */
+export class WorkItemSwitcher extends SuggestModal<WorkItemMatch> {
+	constructor(private readonly plugin: PlaneProjectPlugin) {
+		super(plugin.app);
+		const mod = Platform.isMacOS ? "⌘" : "ctrl";
+		this.setPlaceholder("Find a work item by identifier, title or description");
+		this.setInstructions([
+			{ command: "↵", purpose: "open note" },
+			{ command: `${mod} ↵`, purpose: "edit" },
+			{ command: "shift ↵", purpose: "insert reference" },
+			{ command: "alt ↵", purpose: "copy link" },
+		]);
+		for (const modifier of ["Mod", "Shift", "Alt"] as const) {
+			this.scope.register([modifier], "Enter", (evt) => {
+				this.selectActiveSuggestion(evt);
+				return false;
+			});
+		}
+	}
+
+	getSuggestions(query: string): WorkItemMatch[] {
+		const items = Object.values(this.plugin.cache.projects).flatMap((project) => project.workItems);
+		if (!query.trim()) {
+			return items.slice(0, MAX_SUGGESTIONS).map((item) => ({ item, title: null, score: 0 }));
+		}
+		const search = prepareFuzzySearch(query);
+		const matches: WorkItemMatch[] = [];
+		for (const item of items) {
+			const title = search(titleText(item));
+			if (title) {
+				matches.push({ item, title, score: title.score });
+				continue;
+			}
+			const description = item.description_stripped ? search(item.description_stripped) : null;
+			if (description) matches.push({ item, title: null, score: description.score - DESCRIPTION_PENALTY });
+		}
+		return matches.sort((a, b) => b.score - a.score).slice(0, MAX_SUGGESTIONS);
+	}
+
+	renderSuggestion(match: WorkItemMatch, el: HTMLElement): void {
+		const { item } = match;
+		const title = el.createDiv({ cls: "plane-switcher__title" });
+		if (match.title) renderResults(title, titleText(item), match.title);
+		else title.setText(titleText(item));
+
+		const data = this.plugin.getProjectDataOrEmpty(item.project_id);
+		const state = data.states.find((s) => s.id === (item.state_id ?? item.state));
+		const mod = data.modules.find((m) => m.id === (item.module ?? item.module_id));
+		const meta = el.createDiv({ cls: "plane-hub__card-meta" });
+		if (state) meta.createSpan({ text: state.name, cls: "plane-hub__pill" });
+		if (mod) meta.createSpan({ text: mod.name });
+		if (item.priority) meta.createSpan({ text: item.priority });
+		if (Object.keys(this.plugin.cache.projects).length > 1) {
+			meta.createSpan({ text: this.plugin.projectLabel(item.project_id), cls: "plane-hub__muted" });
+		}
+	}
+
+	onChooseSuggestion(match: WorkItemMatch, evt: MouseEvent | KeyboardEvent): void {
+		const { item } = match;
+		if (Keymap.isModifier(evt, "Mod")) void this.edit(item);
+		else if (Keymap.isModifier(evt, "Shift")) this.insertReference(item);
+		else if (Keymap.isModifier(evt, "Alt")) void this.copyLink(item);
+		else void this.openNote(item);
+	}
+
+	private async openNote(item: PlaneWorkItem): Promise<void> {
+		const file = await this.plugin.ensureNoteForWorkItem(item);
+		await this.app.workspace.getLeaf(false).openFile(file);
+	}
+
+	private async edit(item: PlaneWorkItem): Promise<void> {
+		// the form offers the states and modules of the hub's project; switch it like the hub's dropdown does
+		if (this.plugin.cache.selectedProjectId !== item.project_id) {
+			this.plugin.cache.selectedProjectId = item.project_id;
+			await this.plugin.savePersisted();
+			// open views follow right away, even if the sync below fails
+			this.plugin.events.trigger("cache-updated");
+			await this.plugin.syncFromPlane(false, item.project_id);
+		}
+		this.plugin.openHub().openWorkItemForm(item);
+	}
+
+	private insertReference(item: PlaneWorkItem): void {
+		const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+		if (!editor) {
+			new Notice("Open a note to insert a reference");
+			return;
+		}
+		const note = this.plugin.noteSync.findNote(item.id);
+		const label = item.identifier ?? item.name;
+		editor.replaceSelection(
+			note
+				? `[[${note.basename}|${label}]]`
+				: `[${label}](${this.plugin.client.workItemUrl(item.id, item.project_id)})`,
+		);
+	}
+
+	private async copyLink(item: PlaneWorkItem): Promise<void> {
+		await navigator.clipboard.writeText(this.plugin.client.workItemUrl(item.id, item.project_id));
+		new Notice(`Copied link to ${item.identifier ?? item.name}`);
+	}
+}